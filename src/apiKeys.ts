@@ -0,0 +1,76 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { TokenBucket } from "./rateLimiter.js";
+
+// =============================================================================
+// PER-USER SUMBLE API KEYS
+// =============================================================================
+//
+// On the HTTP server each session bills to its own Sumble account. The key is
+// taken from, in order:
+//   1. the X-Sumble-Api-Key request header
+//   2. the key assigned to the authenticated user in SUMBLE_API_KEYS_FILE
+//   3. SUMBLE_API_KEY, when set, as a shared fallback
+
+export const API_KEY_HEADER = "X-Sumble-Api-Key";
+
+export interface ApiKeyConfig {
+  // Authenticated user -> Sumble API key
+  userKeys: Record<string, string>;
+  fallbackKey?: string;
+}
+
+export function apiKeyConfigFromEnv(env: NodeJS.ProcessEnv = process.env): ApiKeyConfig {
+  return {
+    userKeys: env.SUMBLE_API_KEYS_FILE ? loadUserKeys(env.SUMBLE_API_KEYS_FILE) : {},
+    fallbackKey: env.SUMBLE_API_KEY || undefined,
+  };
+}
+
+// The keys file is a JSON object mapping user names to API keys
+function loadUserKeys(path: string): Record<string, string> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(`Could not read SUMBLE_API_KEYS_FILE ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`SUMBLE_API_KEYS_FILE ${path} must contain a JSON object of user -> API key`);
+  }
+  for (const [user, key] of Object.entries(parsed)) {
+    if (typeof key !== "string" || key === "") throw new Error(`SUMBLE_API_KEYS_FILE: key for "${user}" must be a string`);
+  }
+  return parsed as Record<string, string>;
+}
+
+export function resolveApiKey(
+  config: ApiKeyConfig,
+  header: string | undefined,
+  user: string | undefined
+): string | undefined {
+  if (header?.trim()) return header.trim();
+  if (user !== undefined && Object.hasOwn(config.userKeys, user)) return config.userKeys[user];
+  return config.fallbackKey;
+}
+
+// Stable, non-reversible identifier for a key, safe to use in cache keys and logs
+export function apiKeyId(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex").slice(0, 12);
+}
+
+// The API's rate limit applies per key, so sessions sharing a key share a
+// limiter. Keys come from request headers, so only the most recently used are
+// kept; a session holds on to its own limiter even after it is evicted here.
+const MAX_RATE_LIMITERS = 1000;
+const rateLimiters = new Map<string, TokenBucket>();
+
+export function rateLimiterFor(apiKey: string): TokenBucket {
+  const id = apiKeyId(apiKey);
+  const limiter = rateLimiters.get(id) ?? new TokenBucket();
+  // Re-inserted so the map stays ordered from least to most recently used
+  rateLimiters.delete(id);
+  rateLimiters.set(id, limiter);
+  if (rateLimiters.size > MAX_RATE_LIMITERS) rateLimiters.delete(rateLimiters.keys().next().value!);
+  return limiter;
+}
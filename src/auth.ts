@@ -0,0 +1,312 @@
+import { createPublicKey, createVerify, JsonWebKey, KeyObject, constants, timingSafeEqual } from "node:crypto";
+import { InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { OAuthMetadata, OAuthMetadataSchema } from "@modelcontextprotocol/sdk/shared/auth.js";
+
+// =============================================================================
+// HTTP AUTHENTICATION
+// =============================================================================
+//
+// The HTTP server accepts two kinds of bearer token:
+//   - static tokens listed in MCP_AUTH_TOKENS, for scripts and self-hosted clients
+//   - OAuth 2.1 access tokens issued by an external authorization server
+//     (OAUTH_ISSUER_URL), validated as JWTs against its JWKS or, failing that,
+//     through its token introspection endpoint
+// This server is the OAuth resource server only: clients discover the
+// authorization server through the protected resource metadata it publishes.
+
+export interface StaticToken {
+  name: string;
+  token: string;
+}
+
+export interface OAuthConfig {
+  issuerUrl: URL;
+  // The `aud` access tokens must carry; defaults to the resource URL
+  audience?: string;
+  // Scopes every access token must grant
+  requiredScopes: string[];
+  // Credentials for the introspection endpoint, when tokens are opaque
+  introspectionClientId?: string;
+  introspectionClientSecret?: string;
+}
+
+export interface AuthConfig {
+  staticTokens: StaticToken[];
+  oauth?: OAuthConfig;
+  // Public URL of the MCP endpoint, advertised as the protected resource
+  resourceUrl?: URL;
+  // Origins allowed to call the server from a browser; "*" allows any
+  corsOrigins: string[];
+  // Users allowed to call the /admin endpoints
+  adminUsers: string[];
+}
+
+export function authConfigFromEnv(env: NodeJS.ProcessEnv = process.env): AuthConfig {
+  const staticTokens = splitList(env.MCP_AUTH_TOKENS).map((entry, index) => {
+    // Entries are "token" or "name:token"; the name identifies the caller in logs
+    const separator = entry.indexOf(":");
+    return separator > 0
+      ? { name: entry.slice(0, separator), token: entry.slice(separator + 1) }
+      : { name: `token-${index + 1}`, token: entry };
+  });
+
+  const resourceUrl = env.MCP_PUBLIC_URL ? new URL("/mcp", env.MCP_PUBLIC_URL) : undefined;
+  let oauth: OAuthConfig | undefined;
+  if (env.OAUTH_ISSUER_URL) {
+    if (!resourceUrl) throw new Error("MCP_PUBLIC_URL is required when OAUTH_ISSUER_URL is set");
+    oauth = {
+      issuerUrl: new URL(env.OAUTH_ISSUER_URL),
+      audience: env.OAUTH_AUDIENCE || undefined,
+      requiredScopes: splitList(env.OAUTH_REQUIRED_SCOPES),
+      introspectionClientId: env.OAUTH_CLIENT_ID || undefined,
+      introspectionClientSecret: env.OAUTH_CLIENT_SECRET || undefined,
+    };
+  }
+
+  return {
+    staticTokens,
+    oauth,
+    resourceUrl,
+    corsOrigins: splitList(env.CORS_ALLOWED_ORIGINS),
+    adminUsers: splitList(env.MCP_ADMIN_USERS),
+  };
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? "").split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+// =============================================================================
+// AUTHORIZATION SERVER DISCOVERY
+// =============================================================================
+
+// Fetch the authorization server's metadata (RFC 8414, then OpenID Connect discovery)
+export async function discoverAuthorizationServer(issuerUrl: URL): Promise<OAuthMetadata> {
+  const issuer = issuerUrl.href.replace(/\/$/, "");
+  const path = new URL(issuer).pathname.replace(/\/$/, "");
+  const candidates = [
+    new URL(`/.well-known/oauth-authorization-server${path}`, issuer),
+    new URL(`${issuer}/.well-known/openid-configuration`),
+  ];
+
+  for (const url of candidates) {
+    const response = await fetch(url, { signal: AbortSignal.timeout(10000) }).catch(() => undefined);
+    if (!response?.ok) continue;
+    const result = OAuthMetadataSchema.safeParse(await response.json());
+    if (result.success) return result.data;
+  }
+  throw new Error(`Could not discover OAuth authorization server metadata for ${issuer}`);
+}
+
+// =============================================================================
+// TOKEN VERIFICATION
+// =============================================================================
+
+// Static tokens carry no expiry of their own
+const NEVER_EXPIRES = Number.POSITIVE_INFINITY;
+
+// Minimum time between JWKS refetches triggered by an unknown key ID
+const JWKS_REFRESH_INTERVAL_MS = 60_000;
+
+interface JwtAlgorithm {
+  hash: string;
+  options?: { padding?: number; saltLength?: number };
+}
+
+const pss = (hash: string, saltLength: number): JwtAlgorithm => ({
+  hash,
+  options: { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength },
+});
+
+const JWT_ALGORITHMS: Record<string, JwtAlgorithm> = {
+  RS256: { hash: "sha256" },
+  RS384: { hash: "sha384" },
+  RS512: { hash: "sha512" },
+  PS256: pss("sha256", 32),
+  PS384: pss("sha384", 48),
+  PS512: pss("sha512", 64),
+  ES256: { hash: "sha256" },
+  ES384: { hash: "sha384" },
+  ES512: { hash: "sha512" },
+};
+
+export class TokenVerifier implements OAuthTokenVerifier {
+  private staticTokens: { name: string; token: Buffer }[];
+  private oauth?: OAuthConfig;
+  // The `aud` access tokens must carry
+  private audience?: string;
+  private keys = new Map<string, KeyObject>();
+  private keysFetchedAt = 0;
+
+  constructor(
+    config: AuthConfig,
+    private metadata?: OAuthMetadata
+  ) {
+    this.staticTokens = config.staticTokens.map(({ name, token }) => ({ name, token: Buffer.from(token) }));
+    this.oauth = config.oauth;
+    this.audience = config.oauth?.audience ?? config.resourceUrl?.href;
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    const match = this.matchStaticToken(token);
+    if (match) {
+      return {
+        token,
+        clientId: match.name,
+        scopes: this.oauth?.requiredScopes ?? [],
+        expiresAt: NEVER_EXPIRES,
+        extra: { user: match.name },
+      };
+    }
+
+    if (!this.oauth || !this.metadata) throw new InvalidTokenError("Invalid access token");
+    if (token.split(".").length === 3 && this.jwksUri) return this.verifyJwt(token);
+    if (this.metadata.introspection_endpoint) return this.introspect(token);
+    throw new InvalidTokenError("Invalid access token");
+  }
+
+  private matchStaticToken(token: string): { name: string } | undefined {
+    const candidate = Buffer.from(token);
+    return this.staticTokens.find(
+      (entry) => entry.token.length === candidate.length && timingSafeEqual(entry.token, candidate)
+    );
+  }
+
+  private get jwksUri(): string | undefined {
+    const uri = (this.metadata as { jwks_uri?: unknown } | undefined)?.jwks_uri;
+    return typeof uri === "string" ? uri : undefined;
+  }
+
+  // ---------------------------------------------------------------------------
+  // JWT access tokens
+  // ---------------------------------------------------------------------------
+
+  private async verifyJwt(token: string): Promise<AuthInfo> {
+    const [encodedHeader, encodedPayload, signature] = token.split(".");
+    let header: { alg?: string; kid?: string };
+    let claims: Record<string, unknown>;
+    try {
+      header = JSON.parse(Buffer.from(encodedHeader, "base64url").toString("utf8"));
+      claims = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8"));
+    } catch {
+      throw new InvalidTokenError("Malformed access token");
+    }
+
+    const algorithm = header.alg && Object.hasOwn(JWT_ALGORITHMS, header.alg) ? JWT_ALGORITHMS[header.alg] : undefined;
+    if (!algorithm) throw new InvalidTokenError(`Unsupported token algorithm: ${header.alg}`);
+    const key = await this.signingKey(header.kid);
+
+    let valid = false;
+    try {
+      const verifier = createVerify(algorithm.hash);
+      verifier.update(`${encodedHeader}.${encodedPayload}`);
+      valid = verifier.verify(
+        { key, dsaEncoding: "ieee-p1363", ...algorithm.options },
+        Buffer.from(signature, "base64url")
+      );
+    } catch {
+      // The key does not suit the algorithm
+    }
+    if (!valid) throw new InvalidTokenError("Invalid token signature");
+
+    if (claims.iss !== this.metadata!.issuer) throw new InvalidTokenError("Token was not issued by the configured issuer");
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (this.audience && !audiences.includes(this.audience)) {
+      throw new InvalidTokenError("Token was not issued for this server");
+    }
+    if (typeof claims.nbf === "number" && claims.nbf > Date.now() / 1000) {
+      throw new InvalidTokenError("Token is not valid yet");
+    }
+
+    return this.authInfo(token, claims);
+  }
+
+  private async signingKey(kid: string | undefined): Promise<KeyObject> {
+    const cacheKey = kid ?? "";
+    if (!this.keys.has(cacheKey) && Date.now() - this.keysFetchedAt > JWKS_REFRESH_INTERVAL_MS) {
+      await this.fetchKeys();
+    }
+    // Tokens without a key ID are accepted when the issuer publishes a single key
+    const key =
+      this.keys.get(cacheKey) ?? (kid === undefined && this.keys.size === 1 ? [...this.keys.values()][0] : undefined);
+    if (!key) throw new InvalidTokenError("Token signed with an unknown key");
+    return key;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    this.keysFetchedAt = Date.now();
+    const response = await fetch(this.jwksUri!, { signal: AbortSignal.timeout(10000) });
+    if (!response.ok) throw new Error(`Fetching JWKS failed (${response.status})`);
+    const { keys = [] } = (await response.json()) as { keys?: (JsonWebKey & { kid?: string; use?: string })[] };
+
+    this.keys.clear();
+    for (const jwk of keys) {
+      if (jwk.use && jwk.use !== "sig") continue;
+      try {
+        this.keys.set(jwk.kid ?? "", createPublicKey({ key: jwk, format: "jwk" }));
+      } catch {
+        // Skip key types node cannot import
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Opaque access tokens (RFC 7662 introspection)
+  // ---------------------------------------------------------------------------
+
+  private async introspect(token: string): Promise<AuthInfo> {
+    const { introspectionClientId: id, introspectionClientSecret: secret } = this.oauth!;
+    const headers: Record<string, string> = { "Content-Type": "application/x-www-form-urlencoded" };
+    if (id && secret) headers.Authorization = `Basic ${Buffer.from(`${id}:${secret}`).toString("base64")}`;
+
+    const response = await fetch(this.metadata!.introspection_endpoint!, {
+      method: "POST",
+      headers,
+      body: new URLSearchParams({ token, token_type_hint: "access_token" }),
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) throw new Error(`Token introspection failed (${response.status})`);
+
+    const claims = (await response.json()) as Record<string, unknown>;
+    if (claims.active !== true) throw new InvalidTokenError("Token is not active");
+    if (this.audience && claims.aud !== undefined) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!audiences.includes(this.audience)) throw new InvalidTokenError("Token was not issued for this server");
+    }
+    return this.authInfo(token, claims);
+  }
+
+  private authInfo(token: string, claims: Record<string, unknown>): AuthInfo {
+    const scopes =
+      typeof claims.scope === "string"
+        ? claims.scope.split(" ").filter(Boolean)
+        : Array.isArray(claims.scp)
+          ? claims.scp.map(String)
+          : [];
+    const subject = typeof claims.sub === "string" ? claims.sub : undefined;
+    const clientId = [claims.client_id, claims.azp, subject].find((value) => typeof value === "string") as
+      | string
+      | undefined;
+
+    return {
+      token,
+      clientId: clientId ?? "unknown",
+      scopes,
+      expiresAt: typeof claims.exp === "number" ? claims.exp : undefined,
+      extra: { user: subject ?? clientId },
+    };
+  }
+}
+
+// =============================================================================
+// CORS
+// =============================================================================
+
+// The value for Access-Control-Allow-Origin, or undefined when the origin is not allowed
+export function allowedOrigin(origin: string | undefined, allowList: string[]): string | undefined {
+  if (allowList.includes("*")) return "*";
+  if (!origin) return undefined;
+  return allowList.includes(origin.replace(/\/$/, "")) ? origin : undefined;
+}
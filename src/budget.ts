@@ -0,0 +1,117 @@
+// =============================================================================
+// CREDIT BUDGET
+// =============================================================================
+//
+// Caps how many Sumble credits a session, and a tenant per UTC day, may spend.
+// Calls reserve their worst-case estimate up front and settle to the actual
+// cost once the response arrives, so concurrent calls cannot overspend.
+
+export interface BudgetConfig {
+  // Maximum credits a single MCP session may spend
+  sessionCredits?: number;
+  // Maximum credits a tenant may spend per UTC day, across all sessions
+  dailyCredits?: number;
+}
+
+interface DailyTally {
+  day: string;
+  spent: number;
+  reserved: number;
+}
+
+function currentDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// Process-wide daily spend per tenant, shared by every session
+export class CreditLedger {
+  private tallies = new Map<string, DailyTally>();
+
+  tally(tenant: string): DailyTally {
+    const day = currentDay();
+    let tally = this.tallies.get(tenant);
+    if (!tally || tally.day !== day) {
+      tally = { day, spent: 0, reserved: 0 };
+      this.tallies.set(tenant, tally);
+    }
+    return tally;
+  }
+}
+
+export interface Reservation {
+  credits: number;
+  settled: boolean;
+}
+
+export interface BudgetSummary {
+  session_spent: number;
+  session_remaining?: number;
+  daily_spent: number;
+  daily_remaining?: number;
+}
+
+export class SessionBudget {
+  private spent = 0;
+  private reserved = 0;
+
+  constructor(
+    private config: BudgetConfig,
+    private ledger: CreditLedger = new CreditLedger(),
+    private tenant = "default"
+  ) {}
+
+  get limited(): boolean {
+    return this.config.sessionCredits !== undefined || this.config.dailyCredits !== undefined;
+  }
+
+  // Credits still available to this session, or Infinity when unbounded
+  remaining(): number {
+    let remaining = Infinity;
+    if (this.config.sessionCredits !== undefined) {
+      remaining = this.config.sessionCredits - this.spent - this.reserved;
+    }
+    if (this.config.dailyCredits !== undefined) {
+      const tally = this.ledger.tally(this.tenant);
+      remaining = Math.min(remaining, this.config.dailyCredits - tally.spent - tally.reserved);
+    }
+    return Math.max(0, remaining);
+  }
+
+  reserve(credits: number): Reservation {
+    this.reserved += credits;
+    this.ledger.tally(this.tenant).reserved += credits;
+    return { credits, settled: false };
+  }
+
+  // Replace a reservation with the credits actually spent
+  settle(reservation: Reservation, actualCredits: number) {
+    if (reservation.settled) return;
+    this.release(reservation);
+    this.spent += actualCredits;
+    this.ledger.tally(this.tenant).spent += actualCredits;
+  }
+
+  release(reservation: Reservation) {
+    if (reservation.settled) return;
+    reservation.settled = true;
+    this.reserved -= reservation.credits;
+    const tally = this.ledger.tally(this.tenant);
+    tally.reserved = Math.max(0, tally.reserved - reservation.credits);
+  }
+
+  summary(): BudgetSummary {
+    const tally = this.ledger.tally(this.tenant);
+    return {
+      session_spent: this.spent,
+      session_remaining:
+        this.config.sessionCredits === undefined
+          ? undefined
+          : Math.max(0, this.config.sessionCredits - this.spent),
+      daily_spent: tally.spent,
+      daily_remaining:
+        this.config.dailyCredits === undefined
+          ? undefined
+          : Math.max(0, this.config.dailyCredits - tally.spent),
+    };
+  }
+}
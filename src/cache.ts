@@ -0,0 +1,182 @@
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { rename, writeFile } from "node:fs/promises";
+import { ENDPOINTS } from "./client.js";
+import type { Config } from "./config.js";
+import { logger } from "./logger.js";
+
+// =============================================================================
+// RESPONSE CACHE
+// =============================================================================
+//
+// Sumble responses keyed on endpoint + canonicalised request body, so asking
+// the same question twice in a conversation is only billed once.
+
+// How the caller wants the cache consulted for a single request
+//   fresh (default) - use an entry that is still within its TTL
+//   prefer          - use any cached entry, even one past its TTL
+//   bypass          - always call the API, then refresh the cache
+export type CacheMode = "fresh" | "prefer" | "bypass";
+
+// How a response was served
+//   hit   - fresh cache entry
+//   stale - expired cache entry (only with mode "prefer")
+//   miss  - fetched from the API
+export type CacheStatus = "hit" | "stale" | "miss";
+
+export interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+}
+
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+// Technology stacks and people change slowly; job postings churn daily
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  [ENDPOINTS.findOrganizations]: 6 * HOUR,
+  [ENDPOINTS.enrichOrganization]: 24 * HOUR,
+  [ENDPOINTS.findJobs]: 1 * HOUR,
+  [ENDPOINTS.findPeople]: 24 * HOUR,
+};
+
+export const DEFAULT_MAX_ENTRIES = 500;
+
+// Least-recently-used store bounded by entry count
+export class MemoryCacheStore implements CacheStore {
+  protected entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert so the entry becomes the most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+const FLUSH_DELAY_MS = 1000;
+
+// LRU store persisted to a JSON file so entries survive restarts
+export class FileCacheStore extends MemoryCacheStore {
+  private flushTimer: NodeJS.Timeout | undefined;
+
+  constructor(private path: string, maxEntries = DEFAULT_MAX_ENTRIES) {
+    super(maxEntries);
+    if (existsSync(path)) {
+      try {
+        const saved = JSON.parse(readFileSync(path, "utf8")) as Record<string, CacheEntry>;
+        for (const [key, entry] of Object.entries(saved)) super.set(key, entry);
+      } catch (error) {
+        logger.warn("Ignoring unreadable cache file", { path, error });
+      }
+    }
+  }
+
+  set(key: string, entry: CacheEntry) {
+    super.set(key, entry);
+    this.scheduleFlush();
+  }
+
+  // Batch writes so a burst of responses costs a single file write
+  private scheduleFlush() {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      this.flush().catch((error) => logger.error("Failed to write cache file", { path: this.path, error }));
+    }, FLUSH_DELAY_MS);
+  }
+
+  async flush() {
+    const tmpPath = `${this.path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(Object.fromEntries(this.entries)));
+    await rename(tmpPath, this.path);
+  }
+}
+
+// JSON with object keys sorted, so equivalent bodies produce the same key
+export function canonicalize(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (item && typeof item === "object" && !Array.isArray(item)) {
+      return Object.fromEntries(
+        Object.keys(item)
+          .sort()
+          .map((key) => [key, item[key]])
+      );
+    }
+    return item;
+  });
+}
+
+export interface CacheLookup {
+  value: unknown;
+  status: CacheStatus;
+}
+
+export class ResponseCache {
+  constructor(
+    private store: CacheStore = new MemoryCacheStore(),
+    private ttls: Record<string, number> = DEFAULT_CACHE_TTLS,
+    // Entries are only visible within their partition
+    private partition = ""
+  ) {}
+
+  // A view of the same store whose entries are kept apart from other partitions
+  partitioned(partition: string): ResponseCache {
+    return new ResponseCache(this.store, this.ttls, partition);
+  }
+
+  key(endpoint: string, body: object): string {
+    const prefix = this.partition ? `${this.partition} ` : "";
+    return createHash("sha256").update(`${prefix}${endpoint} ${canonicalize(body)}`).digest("hex");
+  }
+
+  lookup(endpoint: string, body: object, mode: CacheMode = "fresh"): CacheLookup | undefined {
+    if (mode === "bypass") return undefined;
+    const entry = this.store.get(this.key(endpoint, body));
+    if (!entry) return undefined;
+
+    const fresh = Date.now() - entry.storedAt < (this.ttls[endpoint] ?? 0);
+    if (fresh) return { value: entry.value, status: "hit" };
+    if (mode === "prefer") return { value: entry.value, status: "stale" };
+    return undefined;
+  }
+
+  save(endpoint: string, body: object, value: unknown) {
+    this.store.set(this.key(endpoint, body), { value, storedAt: Date.now() });
+  }
+}
+
+export function cacheFromConfig(config: Config["cache"]): ResponseCache | undefined {
+  if (!config.enabled) return undefined;
+
+  const store = config.file
+    ? new FileCacheStore(config.file, config.max_entries)
+    : new MemoryCacheStore(config.max_entries);
+
+  let ttls = DEFAULT_CACHE_TTLS;
+  if (config.ttl_seconds) {
+    const ttl = config.ttl_seconds * 1000;
+    ttls = Object.fromEntries(Object.keys(DEFAULT_CACHE_TTLS).map((endpoint) => [endpoint, ttl]));
+  }
+
+  return new ResponseCache(store, ttls);
+}
@@ -0,0 +1,76 @@
+#!/usr/bin/env node
+import { parseArgs } from "node:util";
+import { resolveConfig } from "./config.js";
+import { serveHttp } from "./http.js";
+import { configureLogging, logger } from "./logger.js";
+import { serveStdio } from "./stdio.js";
+
+// =============================================================================
+// COMMAND LINE
+// =============================================================================
+
+const USAGE = `Usage: sumble-mcp <command> [options]
+
+Commands:
+  serve    Run the MCP server
+  check    Validate the configuration and print it with defaults filled in
+
+Options:
+  --config <file>       JSON or YAML config file
+  --transport <name>    stdio (default), http (Streamable HTTP and legacy SSE) or sse (legacy SSE only)
+  --port <number>       Port for the http and sse transports (default 10000)
+  --log-level <level>   debug, info, warn or error
+  --log-format <name>   json (default) or text
+  -h, --help            Show this help
+
+Environment variables override the config file, and options override both.`;
+
+async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      config: { type: "string" },
+      transport: { type: "string" },
+      port: { type: "string" },
+      "log-level": { type: "string" },
+      "log-format": { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  const [command = "serve", ...extra] = positionals;
+  if (values.help) {
+    console.error(USAGE);
+    return;
+  }
+  if (extra.length > 0 || !["serve", "check"].includes(command)) {
+    throw new Error(`Unexpected arguments: ${positionals.join(" ")}\n\n${USAGE}`);
+  }
+
+  const config = resolveConfig({
+    path: values.config,
+    overrides: {
+      server: {
+        transport: values.transport,
+        port: values.port === undefined ? undefined : Number(values.port),
+      },
+      logging: { level: values["log-level"], format: values["log-format"] },
+    },
+  });
+  if (command === "check") {
+    console.log(JSON.stringify(config, null, 2));
+    return;
+  }
+
+  configureLogging(config.logging);
+  if (config.server.transport === "stdio") {
+    await serveStdio(config);
+  } else {
+    await serveHttp(config);
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  logger.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
@@ -0,0 +1,356 @@
+import { SpanKind } from "@opentelemetry/api";
+import { apiKeyId } from "./apiKeys.js";
+import type { CacheMode, CacheStatus, ResponseCache } from "./cache.js";
+import { sumbleApiError, SumbleInsufficientCreditsError, SumbleUnavailableError } from "./errors.js";
+import {
+  EnrichOrganizationResponse,
+  EnrichOrganizationResponseSchema,
+  FindJobsResponse,
+  FindJobsResponseSchema,
+  FindOrganizationsResponse,
+  FindOrganizationsResponseSchema,
+  FindPeopleResponse,
+  FindPeopleResponseSchema,
+  parseResponse,
+} from "./models.js";
+import { logger } from "./logger.js";
+import { metrics } from "./metrics.js";
+import { sleep, TokenBucket } from "./rateLimiter.js";
+import { withSpan } from "./telemetry.js";
+import type { UsageLedger } from "./usage.js";
+
+// =============================================================================
+// SUMBLE API CLIENT
+// =============================================================================
+
+export const DEFAULT_SUMBLE_API_BASE = "https://api.sumble.com";
+
+export const ENDPOINTS = {
+  findOrganizations: "/v3/organizations/find",
+  enrichOrganization: "/v3/organizations/enrich",
+  findJobs: "/v3/jobs/find",
+  findPeople: "/v3/people/find",
+} as const;
+
+export interface OrganizationIdentifier {
+  domain?: string;
+  id?: number;
+  slug?: string;
+}
+
+export interface TechnologyFilters {
+  technologies?: string[];
+  technology_categories?: string[];
+  since?: string;
+  query?: string;
+}
+
+export interface JobFilters extends TechnologyFilters {
+  countries?: string[];
+}
+
+export interface PeopleFilters {
+  job_functions?: string[];
+  job_levels?: string[];
+  countries?: string[];
+  since?: string;
+  query?: string;
+}
+
+export interface FindOrganizationsParams {
+  filters: TechnologyFilters;
+  order_by_column?: string;
+  order_by_direction?: "ASC" | "DESC";
+  limit?: number;
+  offset?: number;
+}
+
+export interface EnrichOrganizationParams {
+  organization: OrganizationIdentifier;
+  filters: TechnologyFilters;
+}
+
+export interface FindJobsParams {
+  organization?: OrganizationIdentifier;
+  filters: JobFilters;
+  limit?: number;
+  offset?: number;
+}
+
+export interface FindPeopleParams {
+  organization: OrganizationIdentifier;
+  filters: PeopleFilters;
+  limit?: number;
+  offset?: number;
+}
+
+export interface RetryConfig {
+  // Retries after the first attempt
+  maxRetries: number;
+  // Delay before the first retry; doubles on each subsequent retry
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_RETRY: RetryConfig = { maxRetries: 3, baseDelayMs: 500, maxDelayMs: 10_000 };
+const DEFAULT_TIMEOUT_MS = 30_000;
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+// Shared by every client that is not given its own limiter, so all sessions
+// in a process stay within the API's rate limit together
+const sharedRateLimiter = new TokenBucket();
+
+export interface SumbleClientConfig {
+  apiKey: string;
+  // Defaults to the production API; point at a mock server for testing
+  baseUrl?: string;
+  cache?: ResponseCache;
+  rateLimiter?: TokenBucket;
+  retry?: Partial<RetryConfig>;
+  // Per-attempt timeout
+  timeoutMs?: number;
+  // Records every request sent to the API, attributed to the session and user
+  usage?: UsageLedger;
+  session?: string;
+  user?: string;
+}
+
+export interface RequestOptions {
+  cache?: CacheMode;
+  // Aborts the request, including any pending retries (e.g. MCP cancellation)
+  signal?: AbortSignal;
+  // MCP tool the request is made for, for the usage ledger
+  tool?: string;
+  // Credits a response cost, as the tool's credit budget counts them, for the usage ledger
+  credits?: (data: unknown) => number;
+}
+
+export interface SumbleResponse<T> {
+  data: T;
+  cache: CacheStatus;
+}
+
+// Called with every response the client serves, whether cached or fetched
+export type ResponseListener = (endpoint: string, body: object, data: unknown) => void;
+
+export class SumbleClient {
+  private apiKey: string;
+  private baseUrl: string;
+  private cache?: ResponseCache;
+  private rateLimiter: TokenBucket;
+  private retry: RetryConfig;
+  private timeoutMs: number;
+  private listeners: ResponseListener[] = [];
+  private usage?: UsageLedger;
+  private session?: string;
+  private user?: string;
+
+  constructor(config: SumbleClientConfig) {
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl ?? DEFAULT_SUMBLE_API_BASE).replace(/\/+$/, "");
+    this.cache = config.cache;
+    this.rateLimiter = config.rateLimiter ?? sharedRateLimiter;
+    this.retry = { ...DEFAULT_RETRY, ...config.retry };
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.usage = config.usage;
+    this.session = config.session;
+    this.user = config.user;
+  }
+
+  onResponse(listener: ResponseListener) {
+    this.listeners.push(listener);
+  }
+
+  private notify(endpoint: string, body: object, data: unknown) {
+    for (const listener of this.listeners) listener(endpoint, body, data);
+  }
+
+  // Look up a cached response without calling the API
+  cached(endpoint: string, body: object, mode?: CacheMode): SumbleResponse<unknown> | undefined {
+    const hit = this.cache?.lookup(endpoint, body, mode);
+    if (!hit) return undefined;
+    this.notify(endpoint, body, hit.value);
+    return { data: hit.value, cache: hit.status };
+  }
+
+  // POST to an endpoint, serving from and refreshing the response cache
+  async send<T>(
+    endpoint: string,
+    body: object,
+    options: RequestOptions = {}
+  ): Promise<SumbleResponse<T>> {
+    const hit = this.cached(endpoint, body, options.cache);
+    if (hit) return hit as SumbleResponse<T>;
+
+    const startedAt = Date.now();
+    let data: T;
+    try {
+      data = await this.request<T>(endpoint, body, options.signal);
+    } catch (error) {
+      this.recordUsage(endpoint, body, options, startedAt, { error });
+      throw error;
+    }
+    this.recordUsage(endpoint, body, options, startedAt, { data });
+    this.cache?.save(endpoint, body, data);
+    this.notify(endpoint, body, data);
+    return { data, cache: "miss" };
+  }
+
+  private recordUsage(
+    endpoint: string,
+    body: object,
+    options: RequestOptions,
+    startedAt: number,
+    outcome: { data?: unknown; error?: unknown }
+  ) {
+    this.usage?.record({
+      session: this.session,
+      user: this.user,
+      tool: options.tool,
+      endpoint,
+      body,
+      apiKeyId: apiKeyId(this.apiKey),
+      startedAt,
+      ...outcome,
+      ...(outcome.data !== undefined && options.credits && { credits: options.credits(outcome.data) }),
+    });
+  }
+
+  // Rate-limited POST, retrying 429/5xx responses and network errors with
+  // exponential backoff and jitter
+  private async request<T>(endpoint: string, body: object, signal?: AbortSignal): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter.take(signal);
+
+      let response: Response;
+      try {
+        response = await this.fetchAttempt(endpoint, body, attempt, signal);
+      } catch (error) {
+        // Cancellation by the caller is final; timeouts and network errors are retried
+        if (signal?.aborted) throw error;
+        if (attempt >= this.retry.maxRetries) {
+          throw new SumbleUnavailableError(undefined, error instanceof Error ? error.message : String(error));
+        }
+        logger.warn("Retrying Sumble API request after a network error", { endpoint, attempt, error });
+        await sleep(this.backoffDelay(attempt), signal);
+        continue;
+      }
+
+      if (response.ok) return response.json() as Promise<T>;
+
+      const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+      const error = sumbleApiError(response.status, await response.text(), retryAfter);
+      const retryable =
+        RETRYABLE_STATUSES.has(response.status) &&
+        // A 429 can mean the credits ran out, which waiting won't fix
+        !(error instanceof SumbleInsufficientCreditsError) &&
+        attempt < this.retry.maxRetries &&
+        // Don't hold the tool call open for a long server-requested pause
+        (retryAfter === undefined || retryAfter <= this.retry.maxDelayMs);
+      if (!retryable) throw error;
+      logger.warn("Retrying Sumble API request", { endpoint, attempt, status: response.status });
+      await sleep(retryAfter ?? this.backoffDelay(attempt), signal);
+    }
+  }
+
+  // One fetch, traced and measured
+  private fetchAttempt(endpoint: string, body: object, attempt: number, signal?: AbortSignal): Promise<Response> {
+    const attributes = { "http.request.method": "POST", "url.path": endpoint, "sumble.attempt": attempt };
+    return withSpan(`POST ${endpoint}`, { kind: SpanKind.CLIENT, attributes }, async (span) => {
+      const startedAt = performance.now();
+      const seconds = () => (performance.now() - startedAt) / 1000;
+      try {
+        const response = await this.fetchWithTimeout(endpoint, body, signal);
+        span.setAttribute("http.response.status_code", response.status);
+        metrics.apiRequests.inc({ endpoint, status: String(response.status) });
+        metrics.apiDuration.observe({ endpoint }, seconds());
+        logger.debug("Sumble API request", { endpoint, attempt, status: response.status, duration_ms: Math.round(seconds() * 1000) });
+        return response;
+      } catch (error) {
+        metrics.apiRequests.inc({ endpoint, status: signal?.aborted ? "cancelled" : "network_error" });
+        metrics.apiDuration.observe({ endpoint }, seconds());
+        throw error;
+      }
+    });
+  }
+
+  private async fetchWithTimeout(
+    endpoint: string,
+    body: object,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const timer = setTimeout(
+      () => controller.abort(new Error(`request timed out after ${this.timeoutMs}ms`)),
+      this.timeoutMs
+    );
+
+    try {
+      return await fetch(`${this.baseUrl}${endpoint}`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  // Full jitter: a random delay up to the exponential backoff ceiling
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+    return Math.random() * ceiling;
+  }
+
+  // Find organizations matching filters
+  async findOrganizations(
+    params: FindOrganizationsParams,
+    options?: RequestOptions
+  ): Promise<FindOrganizationsResponse> {
+    const { data } = await this.send(ENDPOINTS.findOrganizations, params, options);
+    return parseResponse(FindOrganizationsResponseSchema, data);
+  }
+
+  // Enrich an organization with technology data
+  async enrichOrganization(
+    params: EnrichOrganizationParams,
+    options?: RequestOptions
+  ): Promise<EnrichOrganizationResponse> {
+    const { data } = await this.send(ENDPOINTS.enrichOrganization, params, options);
+    return parseResponse(EnrichOrganizationResponseSchema, data);
+  }
+
+  // Find job listings
+  async findJobs(
+    params: FindJobsParams,
+    options?: RequestOptions
+  ): Promise<FindJobsResponse> {
+    const { data } = await this.send(ENDPOINTS.findJobs, params, options);
+    return parseResponse(FindJobsResponseSchema, data);
+  }
+
+  // Find people at an organization
+  async findPeople(
+    params: FindPeopleParams,
+    options?: RequestOptions
+  ): Promise<FindPeopleResponse> {
+    const { data } = await this.send(ENDPOINTS.findPeople, params, options);
+    return parseResponse(FindPeopleResponseSchema, data);
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
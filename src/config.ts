@@ -0,0 +1,212 @@
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { DEFAULT_MAX_ENTRIES } from "./cache.js";
+import { DEFAULT_SUMBLE_API_BASE } from "./client.js";
+
+// =============================================================================
+// SERVER CONFIGURATION
+// =============================================================================
+//
+// Settings come from, lowest precedence first: built-in defaults, a JSON or
+// YAML config file (--config), environment variables, then command-line
+// flags. Secrets (API keys, auth tokens, OAuth credentials) stay in the
+// environment and are not part of the file.
+
+const positiveInt = z.number().int().positive();
+const credits = z.number().nonnegative();
+
+export const configSchema = z
+  .object({
+    sumble: z
+      .object({
+        // API address; point at a proxy or the mock API for testing
+        base_url: z.string().url().default(DEFAULT_SUMBLE_API_BASE),
+      })
+      .strict()
+      .default({}),
+    server: z
+      .object({
+        // stdio, Streamable HTTP (plus legacy SSE for older clients), or legacy SSE only
+        transport: z.enum(["stdio", "http", "sse"]).default("stdio"),
+        port: z.number().int().min(1).max(65535).default(10000),
+        // HTTP only: keep no per-session state, so any replica can serve any request
+        stateless: z.boolean().default(false),
+        // HTTP only: close Streamable HTTP sessions without requests for this long
+        session_idle_seconds: positiveInt.default(1800),
+      })
+      .strict()
+      .default({}),
+    tools: z
+      .object({
+        // Only register these tools; every tool when omitted
+        enabled: z.array(z.string()).optional(),
+        disabled: z.array(z.string()).default([]),
+      })
+      .strict()
+      .default({}),
+    // Tool name -> arguments applied when the caller leaves them out
+    defaults: z.record(z.record(z.unknown())).default({}),
+    limits: z
+      .object({
+        // Cap on the `limit` argument of every tool and workflow
+        max_limit: positiveInt.optional(),
+        // Cap on `max_results` for automatic paging
+        max_results: positiveInt.optional(),
+      })
+      .strict()
+      .default({}),
+    cache: z
+      .object({
+        enabled: z.boolean().default(true),
+        file: z.string().optional(),
+        max_entries: positiveInt.default(DEFAULT_MAX_ENTRIES),
+        // Override the expiry for every endpoint
+        ttl_seconds: positiveInt.optional(),
+      })
+      .strict()
+      .default({}),
+    budget: z
+      .object({
+        session_credits: credits.optional(),
+        daily_credits: credits.optional(),
+      })
+      .strict()
+      .default({}),
+    usage: z.object({ file: z.string().optional() }).strict().default({}),
+    watchlists: z.object({ file: z.string().optional() }).strict().default({}),
+    export: z.object({ dir: z.string().optional() }).strict().default({}),
+    logging: z
+      .object({
+        level: z.enum(["debug", "info", "warn", "error"]).default("info"),
+        // One JSON object per line, or readable text
+        format: z.enum(["json", "text"]).default("json"),
+      })
+      .strict()
+      .default({}),
+    metrics: z
+      .object({
+        // Serve Prometheus metrics at /metrics (http and sse transports)
+        enabled: z.boolean().default(true),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict();
+
+export type Config = z.infer<typeof configSchema>;
+
+// Unvalidated settings from one source, merged before validation
+type PartialConfig = Record<string, Record<string, unknown>>;
+
+export function loadConfigFile(path: string): PartialConfig {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf8");
+  } catch (error) {
+    throw new Error(`Could not read config file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = [".yaml", ".yml"].includes(extname(path).toLowerCase()) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Could not parse config file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  // An empty YAML file is an empty configuration
+  if (parsed === null || parsed === undefined) return {};
+  if (typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Config file ${path} must contain an object of settings`);
+  }
+  return parsed as PartialConfig;
+}
+
+// =============================================================================
+// ENVIRONMENT VARIABLES
+// =============================================================================
+
+function numberFromEnv(env: NodeJS.ProcessEnv, name: string, minimum = 0): number | undefined {
+  const value = env[name];
+  if (value === undefined || value === "") return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < minimum) {
+    throw new Error(`${name} must be a number of at least ${minimum}, got "${value}"`);
+  }
+  return number;
+}
+
+function listFromEnv(value: string | undefined): string[] | undefined {
+  if (!value) return undefined;
+  return value.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+// The settings environment variables override
+export function configFromEnv(env: NodeJS.ProcessEnv = process.env): PartialConfig {
+  return {
+    sumble: { base_url: env.SUMBLE_API_BASE_URL || undefined },
+    server: {
+      port: numberFromEnv(env, "PORT", 1),
+      stateless: env.MCP_STATELESS ? env.MCP_STATELESS === "true" : undefined,
+      session_idle_seconds: numberFromEnv(env, "MCP_SESSION_IDLE_SECONDS", 1),
+    },
+    tools: {
+      enabled: listFromEnv(env.SUMBLE_TOOLS_ENABLED),
+      disabled: listFromEnv(env.SUMBLE_TOOLS_DISABLED),
+    },
+    cache: {
+      enabled: env.SUMBLE_CACHE ? env.SUMBLE_CACHE !== "off" : undefined,
+      file: env.SUMBLE_CACHE_FILE || undefined,
+      max_entries: numberFromEnv(env, "SUMBLE_CACHE_MAX_ENTRIES", 1),
+      ttl_seconds: numberFromEnv(env, "SUMBLE_CACHE_TTL_SECONDS", 1),
+    },
+    budget: {
+      session_credits: numberFromEnv(env, "SUMBLE_SESSION_CREDIT_BUDGET"),
+      daily_credits: numberFromEnv(env, "SUMBLE_DAILY_CREDIT_BUDGET"),
+    },
+    usage: { file: env.SUMBLE_USAGE_FILE || undefined },
+    watchlists: { file: env.SUMBLE_WATCHLIST_FILE || undefined },
+    export: { dir: env.SUMBLE_EXPORT_DIR || undefined },
+    logging: { level: env.LOG_LEVEL || undefined, format: env.LOG_FORMAT || undefined },
+    metrics: { enabled: env.SUMBLE_METRICS ? env.SUMBLE_METRICS !== "off" : undefined },
+  };
+}
+
+// =============================================================================
+// RESOLUTION
+// =============================================================================
+
+// Later sources win, setting by setting; unset (undefined) values never override
+function mergeConfigs(sources: PartialConfig[]): PartialConfig {
+  const merged: PartialConfig = {};
+  for (const source of sources) {
+    for (const [section, settings] of Object.entries(source)) {
+      if (settings === undefined) continue;
+      if (typeof settings !== "object" || settings === null || Array.isArray(settings)) {
+        // Not a section; let validation report it
+        merged[section] = settings;
+        continue;
+      }
+      const defined = Object.entries(settings).filter(([, value]) => value !== undefined);
+      merged[section] = { ...merged[section], ...Object.fromEntries(defined) };
+    }
+  }
+  return merged;
+}
+
+export interface ConfigOptions {
+  // JSON or YAML config file
+  path?: string;
+  env?: NodeJS.ProcessEnv;
+  // Command-line flags, highest precedence
+  overrides?: PartialConfig;
+}
+
+export function resolveConfig({ path, env = process.env, overrides = {} }: ConfigOptions = {}): Config {
+  const sources = [path ? loadConfigFile(path) : {}, configFromEnv(env), overrides];
+  const parsed = configSchema.safeParse(mergeConfigs(sources));
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new Error(`Invalid configuration${path ? ` (${path})` : ""}:\n  ${problems.join("\n  ")}`);
+  }
+  return parsed.data;
+}
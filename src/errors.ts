@@ -0,0 +1,172 @@
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+
+// =============================================================================
+// SUMBLE API ERRORS
+// =============================================================================
+//
+// Failures from the Sumble API, classified from the response status and error
+// body. Each kind carries a remediation hint written for the model, so a tool
+// error says what to do next (fix an argument, wait, or ask the user) instead
+// of only echoing the API's message.
+
+export type SumbleErrorKind =
+  | "auth"
+  | "insufficient_credits"
+  | "not_found"
+  | "validation"
+  | "rate_limited"
+  | "unavailable"
+  | "api_error";
+
+// JSON-RPC codes for protocol-level failures. Argument problems use the
+// standard InvalidParams; the rest are in the range reserved for servers.
+export const JSON_RPC_CODES: Record<SumbleErrorKind, number> = {
+  auth: -32010,
+  insufficient_credits: -32011,
+  not_found: ErrorCode.InvalidParams,
+  validation: ErrorCode.InvalidParams,
+  rate_limited: -32012,
+  unavailable: -32013,
+  api_error: ErrorCode.InternalError,
+};
+
+interface ErrorBody {
+  message: string;
+  // Request fields the API complained about, e.g. "filters.technologies"
+  fields: string[];
+}
+
+// Error bodies are FastAPI-style ({"detail": "..."} or a list of
+// {"loc": [...], "msg": "..."}), {"message"|"error": "..."}, or plain text
+export function parseErrorBody(body: string): ErrorBody {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return { message: body.trim().slice(0, 500) || "(empty response)", fields: [] };
+  }
+  const object = (typeof parsed === "object" && parsed !== null ? parsed : {}) as Record<string, unknown>;
+  const detail = object.detail ?? object.message ?? object.error;
+  if (typeof detail === "string") return { message: detail, fields: [] };
+  if (Array.isArray(detail)) {
+    const issues = detail.map((issue: { loc?: unknown; msg?: unknown }) => ({
+      // FastAPI prefixes the location with "body"
+      field: Array.isArray(issue?.loc) ? issue.loc.filter((part) => part !== "body").join(".") : "",
+      message: typeof issue?.msg === "string" ? issue.msg : JSON.stringify(issue),
+    }));
+    return {
+      message: issues.map((issue) => (issue.field ? `${issue.field}: ${issue.message}` : issue.message)).join("; "),
+      fields: issues.flatMap((issue) => (issue.field ? [issue.field] : [])),
+    };
+  }
+  return { message: body.slice(0, 500), fields: [] };
+}
+
+// Any failure of a Sumble API request; subclasses classify it
+export class SumbleApiError extends Error {
+  readonly kind: SumbleErrorKind = "api_error";
+  // The API's own explanation, parsed from the error body
+  readonly detail: string;
+  readonly fields: string[];
+
+  constructor(
+    // Undefined when no response arrived
+    readonly status: number | undefined,
+    readonly body: string
+  ) {
+    const { message, fields } = parseErrorBody(body);
+    super(status === undefined ? `Sumble API unreachable: ${message}` : `Sumble API error (${status}): ${message}`);
+    this.name = new.target.name;
+    this.detail = message;
+    this.fields = fields;
+  }
+
+  get hint(): string {
+    return "The Sumble API returned an unexpected error. Retry once; if it fails again, tell the user.";
+  }
+
+  get code(): number {
+    return JSON_RPC_CODES[this.kind];
+  }
+}
+
+// 401/403: the API key is missing, invalid or not allowed to use the endpoint
+export class SumbleAuthError extends SumbleApiError {
+  readonly kind = "auth";
+
+  get hint(): string {
+    return "The Sumble API key was rejected. Retrying won't help: ask the user to check the key this server uses (SUMBLE_API_KEY, or the X-Sumble-Api-Key header).";
+  }
+}
+
+// 402, or a refusal that says the account is out of credits
+export class SumbleInsufficientCreditsError extends SumbleApiError {
+  readonly kind = "insufficient_credits";
+
+  get hint(): string {
+    return "The Sumble account has run out of credits. Tell the user; retrying won't help until credits are added. Smaller limits and fewer filters cost less.";
+  }
+}
+
+// 404: usually an organization the API doesn't know
+export class SumbleNotFoundError extends SumbleApiError {
+  readonly kind = "not_found";
+
+  get hint(): string {
+    return /organi[sz]ation/i.test(this.detail)
+      ? "Organization not found. Try its slug or organization_id, or a different domain (such as the parent company's or its main website), or look it up with find_organizations."
+      : "Nothing was found for this request. Check the identifiers passed and try different ones.";
+  }
+}
+
+// 400/422: the API rejected the request arguments
+export class SumbleValidationError extends SumbleApiError {
+  readonly kind = "validation";
+
+  get hint(): string {
+    const fields = this.fields.length > 0 ? ` (${this.fields.join(", ")})` : "";
+    return `The Sumble API rejected the arguments${fields}. Correct them and call the tool again.`;
+  }
+}
+
+// 429 after the client's own retries ran out
+export class SumbleRateLimitError extends SumbleApiError {
+  readonly kind = "rate_limited";
+
+  constructor(
+    status: number,
+    body: string,
+    // From the Retry-After header
+    readonly retryAfterMs?: number
+  ) {
+    super(status, body);
+  }
+
+  get hint(): string {
+    const wait = this.retryAfterMs === undefined ? "a minute" : `${Math.ceil(this.retryAfterMs / 1000)} seconds`;
+    return `The Sumble API rate limit was hit. Wait ${wait} before calling again, and make fewer calls in parallel.`;
+  }
+}
+
+// 5xx, timeouts and network failures after the client's retries ran out
+export class SumbleUnavailableError extends SumbleApiError {
+  readonly kind = "unavailable";
+
+  get hint(): string {
+    return "The Sumble API is unavailable or not responding. This is usually temporary: retry in a few minutes, and tell the user if it persists.";
+  }
+}
+
+// Classify an error response
+export function sumbleApiError(status: number, body: string, retryAfterMs?: number): SumbleApiError {
+  const outOfCredits = /credit/i.test(parseErrorBody(body).message);
+  if (status === 402 || (outOfCredits && (status === 403 || status === 429))) {
+    return new SumbleInsufficientCreditsError(status, body);
+  }
+  if (status === 401 || status === 403) return new SumbleAuthError(status, body);
+  if (status === 404) return new SumbleNotFoundError(status, body);
+  if (status === 400 || status === 422) return new SumbleValidationError(status, body);
+  if (status === 429) return new SumbleRateLimitError(status, body, retryAfterMs);
+  if (status >= 500) return new SumbleUnavailableError(status, body);
+  return new SumbleApiError(status, body);
+}
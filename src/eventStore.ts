@@ -0,0 +1,79 @@
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import type {
+  EventId,
+  EventStore,
+  StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+
+// =============================================================================
+// IN-MEMORY EVENT STORE
+// =============================================================================
+//
+// Backs resumable Streamable HTTP streams: every SSE event gets an ID, and a
+// client reconnecting with `Last-Event-ID` is replayed whatever it missed.
+// Only the most recent events of each stream, and the most recently used
+// streams, are kept; the HTTP server gives each session its own store so
+// everything is released when the session ends.
+
+const DEFAULT_MAX_EVENTS_PER_STREAM = 1000;
+// Every POST opens a stream, so a long session would otherwise collect them
+const DEFAULT_MAX_STREAMS = 100;
+
+interface StoredEvent {
+  eventId: EventId;
+  message: JSONRPCMessage;
+}
+
+export class InMemoryEventStore implements EventStore {
+  private streams = new Map<StreamId, StoredEvent[]>();
+  private eventStreams = new Map<EventId, StreamId>();
+  private nextSequence = 0;
+
+  constructor(
+    private maxEventsPerStream = DEFAULT_MAX_EVENTS_PER_STREAM,
+    private maxStreams = DEFAULT_MAX_STREAMS
+  ) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}:${++this.nextSequence}`;
+    const events = this.streams.get(streamId) ?? [];
+    events.push({ eventId, message });
+    this.eventStreams.set(eventId, streamId);
+
+    // Evict the oldest events once the stream exceeds its bound
+    while (events.length > this.maxEventsPerStream) {
+      const evicted = events.shift();
+      if (evicted) this.eventStreams.delete(evicted.eventId);
+    }
+
+    // Re-inserted so the map stays ordered from least to most recently used
+    this.streams.delete(streamId);
+    this.streams.set(streamId, events);
+    while (this.streams.size > this.maxStreams) {
+      const [oldest, evictedEvents] = this.streams.entries().next().value!;
+      this.streams.delete(oldest);
+      for (const event of evictedEvents) this.eventStreams.delete(event.eventId);
+    }
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.eventStreams.get(eventId);
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const streamId = this.eventStreams.get(lastEventId);
+    if (!streamId) return "";
+
+    const events = this.streams.get(streamId) ?? [];
+    const index = events.findIndex((event) => event.eventId === lastEventId);
+    for (const event of events.slice(index + 1)) {
+      await send(event.eventId, event.message);
+    }
+
+    return streamId;
+  }
+}
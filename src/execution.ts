@@ -0,0 +1,392 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { SessionBudget } from "./budget.js";
+import { CacheStatus } from "./cache.js";
+import { RequestOptions, SumbleClient, SumbleResponse } from "./client.js";
+import { SumbleApiError, SumbleRateLimitError } from "./errors.js";
+import { parseResponse } from "./models.js";
+import {
+  encodeCursor,
+  MAX_OFFSET,
+  ResultAccumulator,
+  StopReason,
+} from "./pagination.js";
+import { AnyTool, formatCost } from "./tools.js";
+
+// =============================================================================
+// TOOL EXECUTION
+// =============================================================================
+//
+// Runs tool calls against the Sumble API within the session's credit budget,
+// serving cached responses first and shaping results for MCP.
+
+export const budgetSummarySchema = z.object({
+  session_spent: z.number(),
+  session_remaining: z.number().optional(),
+  daily_spent: z.number(),
+  daily_remaining: z.number().optional(),
+});
+
+// How a call was served, attached to every successful result
+export const callMetaSchema = z.object({
+  cache: z.enum(["hit", "stale", "miss"]),
+  credits_spent: z.number(),
+  truncated: z.string().optional(),
+  budget: budgetSummarySchema.optional(),
+});
+
+export type CallMeta = z.infer<typeof callMetaSchema>;
+
+export const dryRunSchema = z.object({
+  tool: z.string(),
+  endpoint: z.string(),
+  request_body: z.unknown(),
+  pricing: z.string(),
+  credits_per_result: z.number(),
+  max_results: z.number(),
+  estimated_max_credits: z.number(),
+  budget_status: z.enum(["ok", "truncated", "refused"]),
+  requested_max_credits: z.number().optional(),
+  truncated: z.string().optional(),
+  budget: budgetSummarySchema.optional(),
+});
+
+export type DryRun = z.infer<typeof dryRunSchema>;
+
+export const paginationSchema = z.object({
+  pages: z.number(),
+  results: z.number(),
+  stopped: z.enum(["complete", "exhausted", "budget", "offset_limit"]),
+  next_cursor: z.string().optional(),
+});
+
+export type Pagination = z.infer<typeof paginationSchema>;
+
+
+export function creditsPerResult(tool: AnyTool, args: Record<string, unknown>): number {
+  return tool.creditsPerResult ? tool.creditsPerResult(args) : tool.cost.credits;
+}
+
+// Worst-case credits a call with these arguments can spend
+export function estimateCredits(tool: AnyTool, args: Record<string, unknown>): number {
+  return tool.maxResults(args) * creditsPerResult(tool, args);
+}
+
+// Credits a completed call spent, preferring the API's own accounting
+export function actualCredits(
+  tool: AnyTool,
+  args: Record<string, unknown>,
+  response: { credits_used?: number | null }
+): number {
+  if (typeof response.credits_used === "number") return response.credits_used;
+  return tool.countResults(response) * creditsPerResult(tool, args);
+}
+
+export function textResult(text: string, isError = false): CallToolResult {
+  return isError
+    ? { content: [{ type: "text", text }], isError: true }
+    : { content: [{ type: "text", text }] };
+}
+
+// Tool result for a failed call. Sumble API errors add a hint telling the model
+// what to do next, and their kind and JSON-RPC code in _meta for clients.
+export function errorResult(error: unknown): CallToolResult {
+  const message = error instanceof Error ? error.message : String(error);
+  if (!(error instanceof SumbleApiError)) return textResult(`Error: ${message}`, true);
+  return {
+    ...textResult(`Error: ${message}\n\nHint: ${error.hint}`, true),
+    _meta: {
+      sumble_error: {
+        kind: error.kind,
+        code: error.code,
+        ...(error.status !== undefined && { status: error.status }),
+        ...(error instanceof SumbleRateLimitError &&
+          error.retryAfterMs !== undefined && { retry_after_seconds: Math.ceil(error.retryAfterMs / 1000) }),
+      },
+    },
+  };
+}
+
+// Outcome of checking a call against the credit budget before sending it
+type CallPlan =
+  | { status: "ok" | "truncated"; args: Record<string, unknown>; truncatedFrom?: number }
+  | { status: "refused" };
+
+// Lower `limit` to what the budget can still afford, or refuse the call when
+// not even one result fits
+function planCall(
+  tool: AnyTool,
+  budget: SessionBudget,
+  args: Record<string, unknown>
+): CallPlan {
+  if (estimateCredits(tool, args) <= budget.remaining()) return { status: "ok", args };
+
+  const affordable = Math.floor(budget.remaining() / creditsPerResult(tool, args));
+  if (!("limit" in tool.inputSchema) || affordable < 1) return { status: "refused" };
+  return {
+    status: "truncated",
+    args: { ...args, limit: affordable },
+    truncatedFrom: args.limit as number,
+  };
+}
+
+export function budgetExceeded(
+  tool: AnyTool,
+  estimate: number,
+  budget: SessionBudget
+): CallToolResult {
+  const error = {
+    error: "credit_budget_exceeded",
+    message: `${tool.name} could cost up to ${estimate} credits but only ${budget.remaining()} remain in the credit budget.`,
+    estimated_credits: estimate,
+    remaining_credits: budget.remaining(),
+    budget: budget.summary(),
+    hint:
+      "limit" in tool.inputSchema
+        ? "Lower `limit` or use fewer filters so the call fits the remaining budget."
+        : "Request fewer technologies or categories so the call fits the remaining budget.",
+  };
+  return textResult(JSON.stringify(error, null, 2), true);
+}
+
+function truncationNotice(plan: CallPlan): string | undefined {
+  if (plan.status !== "truncated") return undefined;
+  return `limit lowered from ${plan.truncatedFrom} to ${plan.args.limit} to fit the credit budget`;
+}
+
+// Describe the request a call would make, without sending it. With
+// `maxResults`, the estimate covers every page and the body is the first page.
+export function dryRun(
+  tool: AnyTool,
+  budget: SessionBudget,
+  args: Record<string, unknown>,
+  maxResults?: number
+): CallToolResult {
+  const estimateArgs = maxResults === undefined ? args : { ...args, limit: maxResults };
+  const plan = planCall(tool, budget, estimateArgs);
+  const callArgs = plan.status === "refused" ? estimateArgs : plan.args;
+  const firstPage =
+    maxResults === undefined
+      ? callArgs
+      : { ...callArgs, limit: Math.min(tool.pagination!.maxPageSize, callArgs.limit as number) };
+  const estimate: DryRun = {
+    tool: tool.name,
+    endpoint: tool.endpoint,
+    request_body: tool.buildRequest(firstPage),
+    pricing: formatCost(tool.cost),
+    credits_per_result: creditsPerResult(tool, callArgs),
+    max_results: tool.maxResults(callArgs),
+    estimated_max_credits: estimateCredits(tool, callArgs),
+    budget_status: plan.status,
+    ...(plan.status !== "ok" && { requested_max_credits: estimateCredits(tool, estimateArgs) }),
+    ...(truncationNotice(plan) && { truncated: truncationNotice(plan) }),
+    ...(budget.limited && { budget: budget.summary() }),
+  };
+  return {
+    content: [{ type: "text", text: `Dry run (no API call made):\n${JSON.stringify(estimate, null, 2)}` }],
+    structuredContent: { dry_run: estimate },
+  };
+}
+
+export function callMeta(
+  budget: SessionBudget,
+  cache: CacheStatus,
+  creditsSpent: number,
+  plan?: CallPlan
+): CallMeta {
+  return {
+    cache,
+    credits_spent: creditsSpent,
+    ...(plan && truncationNotice(plan) && { truncated: truncationNotice(plan) }),
+    ...(budget.limited && { budget: budget.summary() }),
+  };
+}
+
+export function renderCallMeta(meta: CallMeta): string {
+  const parts = [`cache ${meta.cache}`, `${meta.credits_spent} credits spent`];
+  if (meta.truncated) parts.push(meta.truncated);
+  if (meta.budget?.session_remaining != null) {
+    parts.push(`${meta.budget.session_remaining} session credits left`);
+  }
+  if (meta.budget?.daily_remaining != null) {
+    parts.push(`${meta.budget.daily_remaining} daily credits left`);
+  }
+  return `_${parts.join(" · ")}_`;
+}
+
+// Validate the API response and return it as structured content alongside
+// its compact text rendering
+function toolResult(tool: AnyTool, data: unknown, meta: CallMeta): CallToolResult {
+  const response = parseResponse(tool.responseSchema, data);
+  return {
+    content: [{ type: "text", text: `${tool.render(response)}\n\n${renderCallMeta(meta)}` }],
+    structuredContent: { ...response, call: meta },
+  };
+}
+
+export interface CallOutcome {
+  response: Record<string, unknown>;
+  cache: CacheStatus;
+  spent: number;
+  // Arguments the call was actually made with, after any budget truncation
+  args: Record<string, unknown>;
+  plan?: CallPlan;
+}
+
+// Make one API call within the session's credit budget, or return undefined
+// when the budget refuses it. Cached responses are free, so they are served
+// before the budget is consulted.
+export async function executeCall(
+  tool: AnyTool,
+  client: SumbleClient,
+  budget: SessionBudget,
+  args: Record<string, unknown>,
+  options: RequestOptions
+): Promise<CallOutcome | undefined> {
+  const cached = client.cached(tool.endpoint, tool.buildRequest(args), options.cache);
+  if (cached) {
+    const response = parseResponse(tool.responseSchema, cached.data);
+    return { response, cache: cached.cache, spent: 0, args };
+  }
+
+  const plan = planCall(tool, budget, args);
+  if (plan.status === "refused") return undefined;
+
+  const body = tool.buildRequest(plan.args);
+  const reservation = budget.reserve(estimateCredits(tool, plan.args));
+  let response: SumbleResponse<unknown>;
+  try {
+    response = await client.send(tool.endpoint, body, {
+      ...options,
+      credits: (data) => actualCredits(tool, plan.args, (data ?? {}) as { credits_used?: number | null }),
+    });
+  } catch (error) {
+    budget.release(reservation);
+    throw error;
+  }
+  let parsed: z.infer<typeof tool.responseSchema>;
+  try {
+    parsed = parseResponse(tool.responseSchema, response.data);
+  } catch (error) {
+    // The call was billed but its results can't be counted; assume the worst case
+    budget.settle(reservation, reservation.credits);
+    throw error;
+  }
+  const spent = response.cache === "miss" ? actualCredits(tool, plan.args, parsed) : 0;
+  budget.settle(reservation, spent);
+
+  return { response: parsed, cache: response.cache, spent, args: plan.args, plan };
+}
+
+export async function callWithinBudget(
+  tool: AnyTool,
+  client: SumbleClient,
+  budget: SessionBudget,
+  args: Record<string, unknown>,
+  options: RequestOptions
+): Promise<CallToolResult> {
+  const outcome = await executeCall(tool, client, budget, args, options);
+  if (!outcome) return budgetExceeded(tool, estimateCredits(tool, args), budget);
+  return toolResult(
+    tool,
+    outcome.response,
+    callMeta(budget, outcome.cache, outcome.spent, outcome.plan)
+  );
+}
+
+// A page served from the API makes the whole result a miss; otherwise any
+// stale page makes it stale
+function combinedCacheStatus(statuses: CacheStatus[]): CacheStatus {
+  if (statuses.includes("miss")) return "miss";
+  if (statuses.includes("stale")) return "stale";
+  return "hit";
+}
+
+// Page through a list tool until `maxResults` unique results are collected,
+// the API runs out, or the budget or offset cap stops it early
+export async function paginate(
+  tool: AnyTool,
+  client: SumbleClient,
+  budget: SessionBudget,
+  args: Record<string, unknown>,
+  options: RequestOptions,
+  maxResults: number
+): Promise<CallToolResult> {
+  const { listKey, maxPageSize } = tool.pagination!;
+  const accumulator = new ResultAccumulator<unknown>();
+  const cacheStatuses: CacheStatus[] = [];
+  let offset = args.offset as number;
+  let pages = 0;
+  let spent = 0;
+  let total: number | undefined;
+  let stopped: StopReason = "complete";
+
+  while (accumulator.items.length < maxResults) {
+    if (offset > MAX_OFFSET) {
+      stopped = "offset_limit";
+      break;
+    }
+    options.signal?.throwIfAborted();
+
+    const limit = Math.min(maxPageSize, maxResults - accumulator.items.length);
+    const outcome = await executeCall(tool, client, budget, { ...args, limit, offset }, options);
+    if (!outcome) {
+      stopped = "budget";
+      break;
+    }
+
+    pages++;
+    spent += outcome.spent;
+    cacheStatuses.push(outcome.cache);
+    const page = (outcome.response[listKey] as unknown[] | undefined) ?? [];
+    if (typeof outcome.response.total === "number") total = outcome.response.total;
+    accumulator.add(page);
+    offset += page.length;
+
+    if (page.length < (outcome.args.limit as number) || (total !== undefined && offset >= total)) {
+      stopped = "exhausted";
+      break;
+    }
+  }
+
+  if (pages === 0 && stopped === "budget") {
+    return budgetExceeded(tool, estimateCredits(tool, { ...args, limit: maxResults }), budget);
+  }
+
+  const more = stopped === "budget" || (stopped === "complete" && (total === undefined || offset < total));
+  const pagination: Pagination = {
+    pages,
+    results: accumulator.items.length,
+    stopped,
+    ...(more && { next_cursor: encodeCursor(tool.name, offset, args) }),
+  };
+  const merged = parseResponse(tool.responseSchema, {
+    [listKey]: accumulator.items.slice(0, maxResults),
+    total,
+    credits_used: spent,
+  });
+  const meta = callMeta(budget, combinedCacheStatus(cacheStatuses), spent);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `${tool.render(merged)}\n\n${renderPagination(pagination)}\n\n${renderCallMeta(meta)}`,
+      },
+    ],
+    structuredContent: { ...merged, call: meta, pagination },
+  };
+}
+
+function renderPagination(pagination: Pagination): string {
+  const reasons: Record<StopReason, string> = {
+    complete: "reached max_results",
+    exhausted: "no more results",
+    budget: "stopped early: credit budget exhausted",
+    offset_limit: `stopped early: the API serves at most ${MAX_OFFSET} results per search`,
+  };
+  const pages = `${pagination.pages} ${pagination.pages === 1 ? "page" : "pages"}`;
+  const line = `_${pages} fetched, ${reasons[pagination.stopped]}._`;
+  return pagination.next_cursor
+    ? `${line}\nTo continue, repeat the call with \`cursor: "${pagination.next_cursor}"\`.`
+    : line;
+}
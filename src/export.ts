@@ -0,0 +1,298 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { basename, join, resolve } from "node:path";
+import { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { textResult } from "./execution.js";
+import { OrganizationRecord, PersonRecord, ResultStore } from "./resources.js";
+
+// =============================================================================
+// RESULT EXPORT
+// =============================================================================
+//
+// Writes the organizations, people or jobs fetched in a session to CSV or
+// JSONL, with column presets matching HubSpot and Salesforce import templates.
+// The file is returned as an embedded resource, or, when an export directory
+// is configured (stdio server), written there.
+
+export interface ExportConfig {
+  // Directory export files are written to; without it they are returned inline
+  outputDir?: string;
+}
+
+type ExportKind = "organizations" | "people" | "jobs";
+type Row = Record<string, unknown>;
+
+// Flat rows offering every field a column can refer to
+function organizationRow({ organization, technologies }: OrganizationRecord): Row {
+  return {
+    ...organization,
+    technologies: technologies?.flatMap((tech) => tech.name ?? []),
+  };
+}
+
+function personRow({ person, organization }: PersonRecord, results: ResultStore): Row {
+  const company =
+    (organization?.domain && results.organizationByDomain(organization.domain)) ||
+    (organization?.id !== undefined && results.organizationById(String(organization.id))) ||
+    undefined;
+  const [firstName, ...rest] = (person.name ?? "").trim().split(/\s+/);
+  return {
+    ...person,
+    first_name: firstName || undefined,
+    last_name: rest.join(" ") || undefined,
+    organization_name: company?.organization.name,
+    organization_domain: company?.organization.domain ?? organization?.domain,
+    organization_id: company?.organization.id ?? organization?.id,
+  };
+}
+
+function rowsFor(kind: ExportKind, results: ResultStore): Row[] {
+  switch (kind) {
+    case "organizations":
+      return results.allOrganizations().map(organizationRow);
+    case "people":
+      return results.allPeople().map((record) => personRow(record, results));
+    case "jobs":
+      return results.allJobs();
+  }
+}
+
+// =============================================================================
+// COLUMN PRESETS
+// =============================================================================
+
+// Column header -> row field
+type ColumnMapping = [header: string, field: string][];
+
+const PRESETS: Record<string, Partial<Record<ExportKind, ColumnMapping>>> = {
+  default: {
+    organizations: [
+      ["id", "id"],
+      ["name", "name"],
+      ["domain", "domain"],
+      ["industry", "industry"],
+      ["total_employees", "total_employees"],
+      ["headquarters_country", "headquarters_country"],
+      ["matching_technologies", "matching_technologies"],
+      ["technologies", "technologies"],
+      ["jobs_count", "jobs_count"],
+      ["people_count", "people_count"],
+    ],
+    people: [
+      ["id", "id"],
+      ["name", "name"],
+      ["job_title", "job_title"],
+      ["job_function", "job_function"],
+      ["job_level", "job_level"],
+      ["location", "location"],
+      ["country", "country"],
+      ["organization_name", "organization_name"],
+      ["organization_domain", "organization_domain"],
+      ["linkedin_url", "linkedin_url"],
+      ["url", "url"],
+    ],
+    jobs: [
+      ["id", "id"],
+      ["job_title", "job_title"],
+      ["organization_name", "organization_name"],
+      ["organization_domain", "organization_domain"],
+      ["location", "location"],
+      ["country", "country"],
+      ["posted", "datetime_pulled"],
+      ["matched_technologies", "matched_technologies"],
+      ["url", "url"],
+    ],
+  },
+  // HubSpot company and contact import properties
+  hubspot: {
+    organizations: [
+      ["Company name", "name"],
+      ["Company Domain Name", "domain"],
+      ["Industry", "industry"],
+      ["Number of Employees", "total_employees"],
+      ["Country/Region", "headquarters_country"],
+      ["Technologies", "technologies"],
+    ],
+    people: [
+      ["First Name", "first_name"],
+      ["Last Name", "last_name"],
+      ["Job Title", "job_title"],
+      ["Company Name", "organization_name"],
+      ["Company Domain Name", "organization_domain"],
+      ["Country/Region", "country"],
+      ["LinkedIn URL", "linkedin_url"],
+    ],
+  },
+  // Salesforce Data Import Wizard account and lead fields
+  salesforce: {
+    organizations: [
+      ["Account Name", "name"],
+      ["Website", "domain"],
+      ["Industry", "industry"],
+      ["Employees", "total_employees"],
+      ["Billing Country", "headquarters_country"],
+      ["Description", "technologies"],
+    ],
+    people: [
+      ["First Name", "first_name"],
+      ["Last Name", "last_name"],
+      ["Title", "job_title"],
+      ["Company", "organization_name"],
+      ["Website", "organization_domain"],
+      ["Country", "country"],
+      ["LinkedIn Profile", "linkedin_url"],
+    ],
+  },
+};
+
+// =============================================================================
+// SERIALISATION
+// =============================================================================
+
+type ExportFormat = "csv" | "xlsx_csv" | "jsonl";
+
+const FORMATS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: "csv", mimeType: "text/csv" },
+  xlsx_csv: { extension: "csv", mimeType: "text/csv" },
+  jsonl: { extension: "jsonl", mimeType: "application/jsonl" },
+};
+
+function fieldValue(row: Row, field: string): unknown {
+  const value = row[field];
+  return Array.isArray(value) ? value.join("; ") : value;
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Keep spreadsheets from evaluating scraped text as a formula
+  if (/^[=+\-@\t\r]/.test(text) && typeof value !== "number") text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function serialize(rows: Row[], columns: ColumnMapping, format: ExportFormat): string {
+  if (format === "jsonl") {
+    return rows
+      .map((row) =>
+        JSON.stringify(Object.fromEntries(columns.map(([header, field]) => [header, row[field] ?? null])))
+      )
+      .map((line) => `${line}\n`)
+      .join("");
+  }
+  const lines = [
+    columns.map(([header]) => csvCell(header)).join(","),
+    ...rows.map((row) => columns.map(([, field]) => csvCell(fieldValue(row, field))).join(",")),
+  ];
+  // Excel detects UTF-8 from the byte order mark and expects CRLF line endings
+  return format === "xlsx_csv" ? `\uFEFF${lines.join("\r\n")}\r\n` : `${lines.join("\n")}\n`;
+}
+
+// =============================================================================
+// EXPORT TOOL
+// =============================================================================
+
+const exportOutputSchema = z.object({
+  kind: z.enum(["organizations", "people", "jobs"]),
+  format: z.enum(["csv", "xlsx_csv", "jsonl"]),
+  rows: z.number(),
+  columns: z.array(z.string()),
+  // Where the file was written, when an export directory is configured
+  path: z.string().optional(),
+  // URI of the embedded resource otherwise
+  uri: z.string().optional(),
+});
+
+function exportFilename(kind: ExportKind, format: ExportFormat, requested?: string): string {
+  const extension = FORMATS[format].extension;
+  const stem = requested
+    ? basename(requested).replace(/\.[^.]*$/, "").replace(/[^\w.-]+/g, "_")
+    : `sumble-${kind}-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+  return `${stem || kind}.${extension}`;
+}
+
+export function registerExportTool(server: McpServer, results: ResultStore, config: ExportConfig = {}): RegisteredTool {
+  return server.registerTool(
+    "export_results",
+    {
+      description: `Export the organizations, people or jobs fetched so far in this session to CSV, Excel-compatible CSV or JSONL. Choose the columns with a preset (default, hubspot, salesforce) or an explicit column mapping. ${
+        config.outputDir
+          ? `The file is written to ${config.outputDir}.`
+          : "The file is returned as an embedded resource."
+      }
+
+Cost: free (no Sumble API call).
+
+Use this to:
+- Save a prospect list from find_organizations for a spreadsheet
+- Prepare contacts from find_people for a HubSpot or Salesforce import
+- Hand off job postings as JSONL for further processing`,
+      inputSchema: {
+        kind: z.enum(["organizations", "people", "jobs"]).describe("Which fetched results to export"),
+        format: z
+          .enum(["csv", "xlsx_csv", "jsonl"])
+          .default("csv")
+          .describe("'csv', 'xlsx_csv' (CSV that Excel opens with the right encoding) or 'jsonl'"),
+        preset: z
+          .enum(["default", "hubspot", "salesforce"])
+          .default("default")
+          .describe(
+            "Column preset; hubspot and salesforce match their import templates (organizations and people only)"
+          ),
+        columns: z
+          .array(z.object({ header: z.string(), field: z.string() }))
+          .optional()
+          .describe(
+            "Explicit column mapping, overriding the preset: output header and the result field it comes from (e.g., {header: 'Company', field: 'name'}). People also have first_name, last_name, organization_name and organization_domain"
+          ),
+        filename: z.string().optional().describe("File name for the export, without directories"),
+      },
+      outputSchema: exportOutputSchema,
+    },
+    async ({ kind, format, preset, columns, filename }): Promise<CallToolResult> => {
+      try {
+        const mapping: ColumnMapping | undefined = columns?.length
+          ? columns.map(({ header, field }) => [header, field])
+          : PRESETS[preset][kind];
+        if (!mapping) {
+          throw new Error(`The ${preset} preset has no columns for ${kind}; use another preset or pass columns`);
+        }
+
+        const rows = rowsFor(kind, results);
+        if (rows.length === 0) {
+          throw new Error(`No ${kind} have been fetched in this session yet, so there is nothing to export`);
+        }
+
+        const content = serialize(rows, mapping, format);
+        const name = exportFilename(kind, format, filename);
+        const summary = {
+          kind,
+          format,
+          rows: rows.length,
+          columns: mapping.map(([header]) => header),
+        };
+
+        if (config.outputDir) {
+          await mkdir(config.outputDir, { recursive: true });
+          const path = resolve(join(config.outputDir, name));
+          await writeFile(path, content);
+          return {
+            content: [{ type: "text", text: `Exported ${rows.length} ${kind} to ${path}` }],
+            structuredContent: { ...summary, path },
+          };
+        }
+
+        const uri = `sumble://export/${name}`;
+        return {
+          content: [
+            { type: "text", text: `Exported ${rows.length} ${kind} as ${name}` },
+            { type: "resource", resource: { uri, mimeType: FORMATS[format].mimeType, text: content } },
+          ],
+          structuredContent: { ...summary, uri },
+        };
+      } catch (error) {
+        return textResult(`Error: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  );
+}
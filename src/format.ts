@@ -0,0 +1,115 @@
+import {
+  EnrichOrganizationResponse,
+  FindJobsResponse,
+  FindOrganizationsResponse,
+  FindPeopleResponse,
+} from "./models.js";
+
+// =============================================================================
+// TEXT RENDERING
+// =============================================================================
+//
+// Compact markdown summaries of API responses. The full payload is returned
+// as structured content; these keep the model's context small.
+
+type Cell = string | number | null | undefined;
+
+function cell(value: Cell): string {
+  if (value === null || value === undefined || value === "") return "-";
+  return String(value).replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+export function markdownTable(headers: string[], rows: Cell[][]): string {
+  const lines = [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(cell).join(" | ")} |`),
+  ];
+  return lines.join("\n");
+}
+
+function list(values: string[] | null | undefined): string | undefined {
+  return values?.length ? values.join(", ") : undefined;
+}
+
+function datePart(value: string | null | undefined): string | undefined {
+  return value?.slice(0, 10);
+}
+
+function countLine(
+  [singular, plural]: [string, string],
+  shown: number,
+  total?: number | null
+): string {
+  const count = typeof total === "number" && total > shown ? total : shown;
+  const noun = count === 1 ? singular : plural;
+  return count === shown ? `${shown} ${noun}` : `${shown} of ${total} ${noun}`;
+}
+
+export function renderOrganizations(response: FindOrganizationsResponse): string {
+  const organizations = response.organizations ?? [];
+  if (organizations.length === 0) return "No organizations found.";
+  const table = markdownTable(
+    ["Organization", "Domain", "Industry", "Employees", "Matched technologies"],
+    organizations.map((org) => [
+      org.name,
+      org.domain,
+      org.industry,
+      org.total_employees,
+      list(org.matching_technologies),
+    ])
+  );
+  return `${countLine(["organization", "organizations"], organizations.length, response.total)}\n\n${table}`;
+}
+
+export function renderEnrichment(response: EnrichOrganizationResponse): string {
+  const org = response.organization;
+  const heading = org ? `**${org.name ?? org.domain ?? org.slug ?? org.id}**${org.domain ? ` (${org.domain})` : ""}` : "";
+  const technologies = response.technologies ?? [];
+  if (technologies.length === 0) return `${heading}\n\nNo matching technologies found.`.trim();
+  const table = markdownTable(
+    ["Technology", "Jobs", "People", "Teams", "Last job post"],
+    technologies.map((tech) => [
+      tech.name,
+      tech.jobs_count,
+      tech.people_count,
+      tech.teams_count,
+      datePart(tech.last_job_post),
+    ])
+  );
+  return `${heading}\n\n${countLine(["technology", "technologies"], technologies.length)}\n\n${table}`.trim();
+}
+
+export function renderJobs(response: FindJobsResponse): string {
+  const jobs = response.jobs ?? [];
+  if (jobs.length === 0) return "No jobs found.";
+  const table = markdownTable(
+    ["Title", "Organization", "Location", "Posted", "Technologies", "URL"],
+    jobs.map((job) => [
+      job.job_title,
+      job.organization_name ?? job.organization_domain,
+      job.location ?? job.country,
+      datePart(job.datetime_pulled),
+      list(job.matched_technologies),
+      job.url,
+    ])
+  );
+  return `${countLine(["job", "jobs"], jobs.length, response.total)}\n\n${table}`;
+}
+
+export function renderPeople(response: FindPeopleResponse): string {
+  const people = response.people ?? [];
+  if (people.length === 0) return "No people found.";
+  const table = markdownTable(
+    ["Name", "Title", "Function", "Level", "Location", "Profile"],
+    people.map((person) => [
+      person.name,
+      person.job_title,
+      person.job_function,
+      person.job_level,
+      person.location ?? person.country,
+      person.linkedin_url ?? person.url,
+    ])
+  );
+  return `${countLine(["person", "people"], people.length, response.total)}\n\n${table}`;
+}
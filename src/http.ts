@@ -0,0 +1,321 @@
+import { randomUUID } from "node:crypto";
+import express from "express";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { getOAuthProtectedResourceMetadataUrl, mcpAuthMetadataRouter } from "@modelcontextprotocol/sdk/server/auth/router.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { API_KEY_HEADER, apiKeyConfigFromEnv, apiKeyId, rateLimiterFor, resolveApiKey } from "./apiKeys.js";
+import { allowedOrigin, authConfigFromEnv, discoverAuthorizationServer, TokenVerifier } from "./auth.js";
+import { SumbleClient } from "./client.js";
+import { Config } from "./config.js";
+import { JSON_RPC_CODES } from "./errors.js";
+import { InMemoryEventStore } from "./eventStore.js";
+import { logger, registerSecret, withLogContext } from "./logger.js";
+import { checkMcpServer, createMcpServer, createServices } from "./mcpServer.js";
+import { metrics, renderMetrics } from "./metrics.js";
+import { usageReport } from "./usage.js";
+
+// =============================================================================
+// HTTP TRANSPORTS
+// =============================================================================
+//
+// Serves Streamable HTTP on /mcp and the legacy HTTP+SSE transport on /sse
+// and /messages ("http"), or only the legacy transport ("sse").
+
+export async function serveHttp(config: Config, env: NodeJS.ProcessEnv = process.env) {
+  const PORT = config.server.port;
+  // Stateless mode keeps no per-session state, so any replica can serve any request
+  const STATELESS = config.server.stateless;
+  const STREAMABLE = config.server.transport === "http";
+
+  const apiKeyConfig = apiKeyConfigFromEnv(env);
+  if (!apiKeyConfig.fallbackKey) {
+    logger.info("No SUMBLE_API_KEY set: sessions must supply their own key", { header: API_KEY_HEADER, keys_file: "SUMBLE_API_KEYS_FILE" });
+  }
+
+  const services = createServices(config);
+
+  // Each session (or stateless request) gets its own McpServer and a client billing
+  // the caller's Sumble key. Sessions share the tool registry; cached responses are
+  // only shared between sessions using the same key, so a bad key never reads them.
+  // Exports are returned inline: HTTP clients can't reach the server's filesystem.
+  function createServer(apiKey: string, user: string | undefined, session?: string): McpServer {
+    const client = new SumbleClient({
+      apiKey,
+      baseUrl: config.sumble.base_url,
+      cache: services.cache?.partitioned(apiKeyId(apiKey)),
+      rateLimiter: rateLimiterFor(apiKey),
+      usage: services.usage,
+      session,
+      user,
+    });
+    // Only a stateless request comes without a session; legacy SSE always has one
+    const server = createMcpServer(services, client, { user, stateless: session === undefined });
+    // Keep the key out of logs, whatever message it ends up in, while the session lasts
+    server.server.onclose = registerSecret(apiKey);
+    return server;
+  }
+
+  await checkMcpServer(services);
+
+  // =============================================================================
+  // AUTHENTICATION
+  // =============================================================================
+
+  const authConfig = authConfigFromEnv(env);
+  const oauthMetadata = authConfig.oauth
+    ? await discoverAuthorizationServer(authConfig.oauth.issuerUrl)
+    : undefined;
+  const AUTH_ENABLED = authConfig.staticTokens.length > 0 || oauthMetadata !== undefined;
+  if (!AUTH_ENABLED) {
+    logger.warn("Neither MCP_AUTH_TOKENS nor OAUTH_ISSUER_URL is set; the server accepts unauthenticated requests");
+  }
+
+  const requireAuth: express.RequestHandler = AUTH_ENABLED
+    ? requireBearerAuth({
+        verifier: new TokenVerifier(authConfig, oauthMetadata),
+        requiredScopes: authConfig.oauth?.requiredScopes,
+        resourceMetadataUrl: authConfig.resourceUrl && getOAuthProtectedResourceMetadataUrl(authConfig.resourceUrl),
+      })
+    : (req, res, next) => next();
+
+  // Who is calling; a session may only be used by the caller that opened it
+  function callerOf(req: express.Request): string | undefined {
+    const user = req.auth?.extra?.user;
+    return typeof user === "string" ? user : req.auth?.clientId;
+  }
+
+  function apiKeyOf(req: express.Request): string | undefined {
+    return resolveApiKey(apiKeyConfig, req.header(API_KEY_HEADER), callerOf(req));
+  }
+
+  const MISSING_API_KEY = `No Sumble API key for this session: send it in the ${API_KEY_HEADER} header`;
+
+  const app = express();
+
+  // Tag each request with an ID (the caller's, if it sent a usable one) and its
+  // MCP session, so every log entry made while handling it can be correlated
+  app.use((req, res, next) => {
+    const incoming = req.header("x-request-id");
+    const requestId = incoming && /^[\w.:-]{1,128}$/.test(incoming) ? incoming : randomUUID();
+    res.setHeader("X-Request-Id", requestId);
+    const sessionId = req.header("mcp-session-id") ?? (typeof req.query.sessionId === "string" ? req.query.sessionId : undefined);
+    const startedAt = Date.now();
+    res.on("finish", () =>
+      withLogContext({ request_id: requestId, session_id: sessionId }, () =>
+        logger.info("HTTP request", { method: req.method, path: req.path, status: res.statusCode, duration_ms: Date.now() - startedAt })
+      )
+    );
+    withLogContext({ request_id: requestId, session_id: sessionId }, next);
+  });
+
+  app.use(express.json());
+  app.use((req, res, next) => {
+    const origin = allowedOrigin(req.header("origin"), authConfig.corsOrigins);
+    if (origin) {
+      res.setHeader("Access-Control-Allow-Origin", origin);
+      res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+      res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID, X-Sumble-Api-Key, X-Request-Id");
+      res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id, WWW-Authenticate, X-Request-Id");
+    }
+    res.setHeader("Vary", "Origin");
+    if (req.method === "OPTIONS") { res.status(204).end(); return; }
+    next();
+  });
+
+  // OAuth discovery: clients find the authorization server through the protected resource metadata
+  if (oauthMetadata && authConfig.resourceUrl) {
+    app.use(
+      mcpAuthMetadataRouter({
+        oauthMetadata,
+        resourceServerUrl: authConfig.resourceUrl,
+        scopesSupported: authConfig.oauth?.requiredScopes,
+        resourceName: "Sumble MCP Server",
+      })
+    );
+  }
+
+  const transports: Record<string, SSEServerTransport> = {};
+  const sessions: Record<string, StreamableHTTPServerTransport> = {};
+  // Session ID -> the caller that opened it
+  const owners: Record<string, string | undefined> = {};
+  // Streamable HTTP session ID -> when its last request ended, and how many are open
+  const activity: Record<string, { lastSeen: number; open: number }> = {};
+
+  // Count a request against its session until the response ends
+  function trackActivity(sessionId: string, res: express.Response) {
+    const entry = (activity[sessionId] ??= { lastSeen: Date.now(), open: 0 });
+    entry.open++;
+    res.on("close", () => {
+      entry.open--;
+      entry.lastSeen = Date.now();
+    });
+  }
+
+  // Abandoned sessions would otherwise keep their server, results and event
+  // store forever; close those with no open stream and no recent request
+  const IDLE_MS = config.server.session_idle_seconds * 1000;
+  setInterval(() => {
+    for (const [id, entry] of Object.entries(activity)) {
+      if (entry.open > 0 || Date.now() - entry.lastSeen < IDLE_MS) continue;
+      logger.info("Closing idle Streamable HTTP session", { session_id: id });
+      delete activity[id];
+      sessions[id]?.close();
+    }
+  }, Math.min(IDLE_MS, 60_000)).unref();
+
+  app.get("/", (req, res) => res.json({ status: "ok" }));
+  app.get("/health", (req, res) => res.json({ status: "ok" }));
+
+  // =============================================================================
+  // STREAMABLE HTTP TRANSPORT
+  // =============================================================================
+
+  function jsonRpcError(res: express.Response, status: number, message: string, code = -32000) {
+    res.status(status).json({ jsonrpc: "2.0", error: { code, message }, id: null });
+  }
+
+  async function handleMcpPost(req: express.Request, res: express.Response) {
+    if (STATELESS) {
+      const apiKey = apiKeyOf(req);
+      if (!apiKey) { jsonRpcError(res, 401, MISSING_API_KEY, JSON_RPC_CODES.auth); return; }
+      const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+      const server = createServer(apiKey, callerOf(req));
+      res.on("close", () => { transport.close(); server.close(); });
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+      return;
+    }
+
+    let sessionId = req.header("mcp-session-id");
+    let transport = sessionId && owners[sessionId] === callerOf(req) ? sessions[sessionId] : undefined;
+
+    if (!transport) {
+      if (sessionId) { jsonRpcError(res, 404, "Session not found"); return; }
+      if (!isInitializeRequest(req.body)) { jsonRpcError(res, 400, "Missing Mcp-Session-Id header"); return; }
+      // The key is fixed for the session's lifetime
+      const apiKey = apiKeyOf(req);
+      if (!apiKey) { jsonRpcError(res, 401, MISSING_API_KEY, JSON_RPC_CODES.auth); return; }
+
+      const newSessionId = randomUUID();
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => newSessionId,
+        eventStore: new InMemoryEventStore(),
+        onsessioninitialized: (id) => {
+          logger.info("Streamable HTTP session initialized", { session_id: id });
+          metrics.activeSessions.inc({ transport: "streamable_http" });
+          sessions[id] = newTransport;
+          owners[id] = callerOf(req);
+        },
+      });
+      newTransport.onclose = () => {
+        if (!newTransport.sessionId || !sessions[newTransport.sessionId]) return;
+        metrics.activeSessions.dec({ transport: "streamable_http" });
+        delete sessions[newTransport.sessionId];
+        delete owners[newTransport.sessionId];
+        delete activity[newTransport.sessionId];
+      };
+      await createServer(apiKey, callerOf(req), newSessionId).connect(newTransport);
+      transport = newTransport;
+      sessionId = newSessionId;
+    }
+
+    trackActivity(sessionId!, res);
+    await transport.handleRequest(req, res, req.body);
+  }
+
+  // GET opens (or resumes, via Last-Event-ID) the server-to-client stream; DELETE ends the session
+  async function handleSessionRequest(req: express.Request, res: express.Response) {
+    if (STATELESS) { jsonRpcError(res, 405, "Method not allowed in stateless mode"); return; }
+    const sessionId = req.header("mcp-session-id");
+    const transport = sessionId && owners[sessionId] === callerOf(req) ? sessions[sessionId] : undefined;
+    if (!transport) { jsonRpcError(res, sessionId ? 404 : 400, "Invalid or missing session"); return; }
+    trackActivity(sessionId!, res);
+    await transport.handleRequest(req, res);
+  }
+
+  // The legacy-only transport leaves /mcp unserved
+  if (STREAMABLE) {
+    app.post("/mcp", requireAuth, handleMcpPost);
+    app.get("/mcp", requireAuth, handleSessionRequest);
+    app.delete("/mcp", requireAuth, handleSessionRequest);
+  }
+
+  // =============================================================================
+  // LEGACY SSE TRANSPORT
+  // =============================================================================
+
+  app.get("/sse", requireAuth, async (req, res) => {
+    const apiKey = apiKeyOf(req);
+    if (!apiKey) { res.status(401).json({ error: MISSING_API_KEY }); return; }
+    const transport = new SSEServerTransport("/messages", res);
+    logger.info("SSE session opened", { session_id: transport.sessionId });
+    metrics.activeSessions.inc({ transport: "sse" });
+    transports[transport.sessionId] = transport;
+    owners[transport.sessionId] = callerOf(req);
+    res.on("close", () => {
+      metrics.activeSessions.dec({ transport: "sse" });
+      delete transports[transport.sessionId];
+      delete owners[transport.sessionId];
+    });
+    await createServer(apiKey, callerOf(req), transport.sessionId).connect(transport);
+  });
+
+  app.post("/messages", requireAuth, async (req, res) => {
+    const sessionId = req.query.sessionId as string;
+    const transport = owners[sessionId] === callerOf(req) ? transports[sessionId] : undefined;
+    if (!transport) { res.status(400).json({ error: "Invalid session" }); return; }
+    await transport.handlePostMessage(req, res, req.body);
+  });
+
+  // =============================================================================
+  // ADMIN
+  // =============================================================================
+
+  // Only MCP_ADMIN_USERS may read the admin endpoints; without authentication
+  // no caller can be identified as one, so they stay closed
+  const requireAdmin: express.RequestHandler = (req, res, next) => {
+    if (!AUTH_ENABLED) {
+      res.status(403).json({ error: "Admin access requires authentication: set MCP_AUTH_TOKENS or OAUTH_ISSUER_URL" });
+      return;
+    }
+    const caller = callerOf(req);
+    if (caller === undefined || !authConfig.adminUsers.includes(caller)) {
+      res.status(403).json({ error: "Admin access required: add the user to MCP_ADMIN_USERS" });
+      return;
+    }
+    next();
+  };
+
+  // Credit usage across every session, aggregated by day, tool and user
+  app.get("/admin/usage", requireAuth, requireAdmin, async (req, res) => {
+    const param = (name: string) => (typeof req.query[name] === "string" ? (req.query[name] as string) : undefined);
+    const filter = { since: param("since"), until: param("until"), user: param("user"), tool: param("tool") };
+    for (const day of [filter.since, filter.until]) {
+      if (day !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(day)) {
+        res.status(400).json({ error: `Invalid date "${day}": use YYYY-MM-DD` });
+        return;
+      }
+    }
+    res.json(usageReport(await services.usage.records(), filter));
+  });
+
+  // Prometheus scrape target; Prometheus usually can't present a bearer token,
+  // so like /health it is not behind authentication
+  if (config.metrics.enabled) {
+    app.get("/metrics", (req, res) => {
+      res.type("text/plain; version=0.0.4").send(renderMetrics());
+    });
+  }
+
+  app.listen(PORT, () =>
+    logger.info("Server listening", {
+      port: PORT,
+      transports: STREAMABLE ? ["streamable_http", "sse"] : ["sse"],
+      stateless: STATELESS,
+      metrics: config.metrics.enabled,
+    })
+  );
+}
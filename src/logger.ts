@@ -0,0 +1,110 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { Config } from "./config.js";
+
+// =============================================================================
+// LOGGING
+// =============================================================================
+//
+// One JSON object per line (or a readable line with format "text"), carrying
+// the request and session IDs of whatever is being handled. Everything goes to
+// stderr: on the stdio transport, stdout carries the MCP protocol itself.
+// API keys, tokens and other secrets are redacted from every entry.
+
+export type LogLevel = Config["logging"]["level"];
+export type LogFormat = Config["logging"]["format"];
+export type LogFields = Record<string, unknown>;
+
+const SEVERITY: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+let threshold = SEVERITY.info;
+let format: LogFormat = "json";
+
+export function configureLogging(config: Config["logging"]) {
+  threshold = SEVERITY[config.level];
+  format = config.format;
+}
+
+// =============================================================================
+// CONTEXT
+// =============================================================================
+
+// Fields added to every entry logged while handling a request
+const context = new AsyncLocalStorage<LogFields>();
+
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+export function logContext(): LogFields {
+  return context.getStore() ?? {};
+}
+
+// =============================================================================
+// REDACTION
+// =============================================================================
+
+const REDACTED = "[REDACTED]";
+
+// Field names whose values are secrets; IDs derived from them (api_key_id) are not
+const SECRET_FIELD = /authorization|api[-_]?key(?![-_]?id)|token|secret|password|cookie/i;
+
+// Secrets in use, such as the Sumble API keys of open sessions -> how many
+// sessions use each. Every entry costs a scan of every log string, so keys are
+// released when their sessions close.
+const secrets = new Map<string, number>();
+
+// Redact a secret until the returned function is called
+export function registerSecret(secret: string): () => void {
+  // Short values would redact unrelated text
+  if (secret.length < 8) return () => {};
+  secrets.set(secret, (secrets.get(secret) ?? 0) + 1);
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const count = (secrets.get(secret) ?? 1) - 1;
+    if (count > 0) secrets.set(secret, count);
+    else secrets.delete(secret);
+  };
+}
+
+function redactText(text: string): string {
+  let redacted = text.replace(/\b(Bearer|Basic)\s+[^\s"',]+/gi, `$1 ${REDACTED}`);
+  for (const secret of secrets.keys()) redacted = redacted.split(secret).join(REDACTED);
+  return redacted;
+}
+
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") return redactText(value);
+  if (value instanceof Error) {
+    return redact({ name: value.name, message: value.message, stack: value.stack }, depth);
+  }
+  if (value === null || typeof value !== "object" || depth > 5) return value;
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, SECRET_FIELD.test(key) ? REDACTED : redact(item, depth + 1)])
+  );
+}
+
+// =============================================================================
+// OUTPUT
+// =============================================================================
+
+function write(level: LogLevel, message: string, fields: LogFields) {
+  if (SEVERITY[level] < threshold) return;
+  const entry = redact({ time: new Date().toISOString(), level, msg: message, ...logContext(), ...fields }) as LogFields;
+  if (format === "json") {
+    process.stderr.write(`${JSON.stringify(entry)}\n`);
+    return;
+  }
+  const { time, level: _level, msg, ...rest } = entry;
+  const details = Object.entries(rest).map(([key, value]) => `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`);
+  process.stderr.write(`${time} [${level}] ${msg}${details.length ? ` ${details.join(" ")}` : ""}\n`);
+}
+
+export const logger = {
+  debug: (message: string, fields: LogFields = {}) => write("debug", message, fields),
+  info: (message: string, fields: LogFields = {}) => write("info", message, fields),
+  warn: (message: string, fields: LogFields = {}) => write("warn", message, fields),
+  error: (message: string, fields: LogFields = {}) => write("error", message, fields),
+};
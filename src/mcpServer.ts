@@ -0,0 +1,94 @@
+import { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CreditLedger, SessionBudget } from "./budget.js";
+import { cacheFromConfig, ResponseCache } from "./cache.js";
+import { SumbleClient } from "./client.js";
+import { Config } from "./config.js";
+import { registerExportTool } from "./export.js";
+import { registerPrompts } from "./prompts.js";
+import { TokenBucket } from "./rateLimiter.js";
+import { registerTools } from "./registry.js";
+import { registerResources } from "./resources.js";
+import { instrumentTool } from "./telemetry.js";
+import { registerUsageTool, UsageLedger } from "./usage.js";
+import { registerWatchlistTools, WatchlistStore } from "./watchlist.js";
+
+// =============================================================================
+// MCP SERVER FACTORY
+// =============================================================================
+//
+// Every transport builds its MCP servers here: one per process on stdio, one
+// per session over HTTP. The services are created once per process and shared
+// by all of them.
+
+export interface Services {
+  config: Config;
+  cache?: ResponseCache;
+  // Daily credit spend per tenant
+  ledger: CreditLedger;
+  usage: UsageLedger;
+  watchlists: WatchlistStore;
+}
+
+export function createServices(config: Config): Services {
+  return {
+    config,
+    cache: cacheFromConfig(config.cache),
+    ledger: new CreditLedger(),
+    usage: new UsageLedger(config.usage.file),
+    watchlists: new WatchlistStore(config.watchlists.file),
+  };
+}
+
+export interface SessionOptions {
+  // Authenticated user; scopes budgets, usage reports and watchlists
+  user?: string;
+  // Write exports to this directory instead of returning them inline
+  exportDir?: string;
+  // Every request is its own session, so no fetched result outlives it
+  stateless?: boolean;
+}
+
+// Remove the tools the configuration switches off
+function selectTools(tools: Record<string, RegisteredTool>, selection: Config["tools"]) {
+  const names = Object.keys(tools);
+  for (const [setting, listed] of [["enabled", selection.enabled ?? []], ["disabled", selection.disabled]] as const) {
+    const unknown = listed.filter((name) => !Object.hasOwn(tools, name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown tools in tools.${setting}: ${unknown.join(", ")} (available: ${names.join(", ")})`);
+    }
+  }
+  for (const [name, tool] of Object.entries(tools)) {
+    const enabled = selection.enabled?.includes(name) ?? true;
+    if (!enabled || selection.disabled.includes(name)) tool.remove();
+  }
+}
+
+// Build and discard a server, so configuration errors (such as unknown tool
+// names) stop startup instead of failing every session. Its client has no key
+// and is never called.
+export async function checkMcpServer(services: Services) {
+  const client = new SumbleClient({ apiKey: "", baseUrl: services.config.sumble.base_url, rateLimiter: new TokenBucket() });
+  await createMcpServer(services, client).close();
+}
+
+export function createMcpServer(services: Services, client: SumbleClient, options: SessionOptions = {}): McpServer {
+  const { config } = services;
+  const server = new McpServer({ name: "sumble-mcp-server", version: "1.0.0" });
+  const budget = new SessionBudget(
+    { sessionCredits: config.budget.session_credits, dailyCredits: config.budget.daily_credits },
+    services.ledger,
+    options.user
+  );
+  const tools = {
+    ...registerTools(server, client, budget, { defaults: config.defaults, limits: config.limits }),
+    export_results: registerExportTool(server, registerResources(server, client, { templates: !options.stateless }), {
+      outputDir: options.exportDir,
+    }),
+    get_usage_report: registerUsageTool(server, services.usage, options.user),
+    ...registerWatchlistTools(server, services.watchlists, client, budget, options.user),
+  };
+  selectTools(tools, config.tools);
+  for (const [name, tool] of Object.entries(tools)) instrumentTool(name, tool);
+  registerPrompts(server);
+  return server;
+}
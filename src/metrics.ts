@@ -0,0 +1,142 @@
+// =============================================================================
+// PROMETHEUS METRICS
+// =============================================================================
+//
+// Process-wide counters, gauges and histograms, rendered in the Prometheus
+// text exposition format at /metrics on the HTTP transports.
+
+type Labels = Record<string, string>;
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  if (entries.length === 0) return "";
+  const escape = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+  return `{${entries.map(([name, value]) => `${name}="${escape(value)}"`).join(",")}}`;
+}
+
+interface Metric {
+  name: string;
+  render(): string[];
+}
+
+abstract class LabelledMetric<T> implements Metric {
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge" | "histogram"
+  ) {}
+
+  protected entry(labels: Labels, initial: () => T): { labels: Labels; value: T } {
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  protected abstract samples(labels: Labels, value: T): string[];
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) lines.push(...this.samples(labels, value));
+    return lines;
+  }
+}
+
+export class Counter extends LabelledMetric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, amount = 1) {
+    this.entry(labels, () => 0).value += amount;
+  }
+
+  protected samples(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+export class Gauge extends LabelledMetric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  inc(labels: Labels = {}, amount = 1) {
+    this.entry(labels, () => 0).value += amount;
+  }
+
+  dec(labels: Labels = {}, amount = 1) {
+    this.inc(labels, -amount);
+  }
+
+  protected samples(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+interface HistogramValue {
+  // Observations at or below each bucket's upper bound
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends LabelledMetric<HistogramValue> {
+  constructor(
+    name: string,
+    help: string,
+    readonly buckets: number[]
+  ) {
+    super(name, help, "histogram");
+  }
+
+  observe(labels: Labels, value: number) {
+    const entry = this.entry(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.counts[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  protected samples(labels: Labels, value: HistogramValue): string[] {
+    return [
+      ...this.buckets.map((bound, index) => `${this.name}_bucket${formatLabels(labels, { le: String(bound) })} ${value.counts[index]}`),
+      `${this.name}_bucket${formatLabels(labels, { le: "+Inf" })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ];
+  }
+}
+
+// =============================================================================
+// SERVER METRICS
+// =============================================================================
+
+export const metrics = {
+  toolCalls: new Counter("sumble_mcp_tool_calls_total", "MCP tool calls by tool and outcome (success or error)."),
+  apiRequests: new Counter(
+    "sumble_api_requests_total",
+    "Requests sent to the Sumble API, including retries, by endpoint and HTTP status (network_error or cancelled when no response arrived)."
+  ),
+  apiDuration: new Histogram(
+    "sumble_api_request_duration_seconds",
+    "Latency of each request sent to the Sumble API, by endpoint.",
+    [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+  ),
+  creditsSpent: new Counter("sumble_credits_spent_total", "Sumble credits spent, by tool."),
+  activeSessions: new Gauge("sumble_mcp_active_sessions", "Open MCP sessions, by transport."),
+};
+
+export function renderMetrics(): string {
+  return `${Object.values(metrics).flatMap((metric: Metric) => metric.render()).join("\n")}\n`;
+}
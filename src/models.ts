@@ -0,0 +1,130 @@
+import { z } from "zod";
+
+// =============================================================================
+// SUMBLE RESPONSE MODELS
+// =============================================================================
+//
+// Schemas for the parts of each response the tools rely on. Every field is
+// optional and unknown fields pass through, so additions to the API never
+// cause a valid response to be rejected.
+
+const creditsShape = {
+  credits_used: z.number().nullish(),
+  credits_remaining: z.number().nullish(),
+};
+
+export const OrganizationSchema = z
+  .object({
+    id: z.number().nullish(),
+    slug: z.string().nullish(),
+    name: z.string().nullish(),
+    domain: z.string().nullish(),
+    url: z.string().nullish(),
+    industry: z.string().nullish(),
+    total_employees: z.number().nullish(),
+    headquarters_country: z.string().nullish(),
+    matching_technologies: z.array(z.string()).nullish(),
+    jobs_count: z.number().nullish(),
+    people_count: z.number().nullish(),
+  })
+  .passthrough();
+
+export const TechnologySchema = z
+  .object({
+    name: z.string().nullish(),
+    jobs_count: z.number().nullish(),
+    people_count: z.number().nullish(),
+    teams_count: z.number().nullish(),
+    last_job_post: z.string().nullish(),
+    jobs_data_url: z.string().nullish(),
+    people_data_url: z.string().nullish(),
+  })
+  .passthrough();
+
+export const JobSchema = z
+  .object({
+    id: z.number().nullish(),
+    job_title: z.string().nullish(),
+    organization_id: z.number().nullish(),
+    organization_name: z.string().nullish(),
+    organization_domain: z.string().nullish(),
+    location: z.string().nullish(),
+    country: z.string().nullish(),
+    datetime_pulled: z.string().nullish(),
+    primary_job_function: z.string().nullish(),
+    matched_technologies: z.array(z.string()).nullish(),
+    url: z.string().nullish(),
+    description: z.string().nullish(),
+  })
+  .passthrough();
+
+export const PersonSchema = z
+  .object({
+    id: z.number().nullish(),
+    name: z.string().nullish(),
+    job_title: z.string().nullish(),
+    job_function: z.string().nullish(),
+    job_level: z.string().nullish(),
+    location: z.string().nullish(),
+    country: z.string().nullish(),
+    start_date: z.string().nullish(),
+    url: z.string().nullish(),
+    linkedin_url: z.string().nullish(),
+  })
+  .passthrough();
+
+export const FindOrganizationsResponseSchema = z
+  .object({
+    organizations: z.array(OrganizationSchema).optional(),
+    total: z.number().nullish(),
+    ...creditsShape,
+  })
+  .passthrough();
+
+export const EnrichOrganizationResponseSchema = z
+  .object({
+    organization: OrganizationSchema.nullish(),
+    technologies: z.array(TechnologySchema).optional(),
+    ...creditsShape,
+  })
+  .passthrough();
+
+export const FindJobsResponseSchema = z
+  .object({
+    jobs: z.array(JobSchema).optional(),
+    total: z.number().nullish(),
+    ...creditsShape,
+  })
+  .passthrough();
+
+export const FindPeopleResponseSchema = z
+  .object({
+    people: z.array(PersonSchema).optional(),
+    total: z.number().nullish(),
+    ...creditsShape,
+  })
+  .passthrough();
+
+export type Organization = z.infer<typeof OrganizationSchema>;
+export type Technology = z.infer<typeof TechnologySchema>;
+export type Job = z.infer<typeof JobSchema>;
+export type Person = z.infer<typeof PersonSchema>;
+export type FindOrganizationsResponse = z.infer<typeof FindOrganizationsResponseSchema>;
+export type EnrichOrganizationResponse = z.infer<typeof EnrichOrganizationResponseSchema>;
+export type FindJobsResponse = z.infer<typeof FindJobsResponseSchema>;
+export type FindPeopleResponse = z.infer<typeof FindPeopleResponseSchema>;
+
+// Validate a raw response, reporting the offending fields on mismatch
+export function parseResponse<Schema extends z.ZodTypeAny>(
+  schema: Schema,
+  data: unknown
+): z.infer<Schema> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Unexpected Sumble API response: ${issues}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,209 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+// =============================================================================
+// INPUT NORMALISATION
+// =============================================================================
+//
+// Agents pass identifiers the way people write them: URLs for domains, country
+// names, technology nicknames. The API matches them literally, so they are
+// rewritten to its canonical forms before a request is built, and every
+// rewrite is reported back with the result.
+
+export const rewriteSchema = z.object({
+  field: z.string(),
+  from: z.string(),
+  to: z.string(),
+});
+
+export type Rewrite = z.infer<typeof rewriteSchema>;
+
+// =============================================================================
+// DOMAINS
+// =============================================================================
+
+// "https://www.Stripe.com/pricing" -> "stripe.com"; also accepts email addresses
+export function canonicalDomain(value: string): string {
+  let domain = value.trim().toLowerCase();
+  domain = domain.replace(/^[a-z][a-z0-9+.-]*:\/\//, "");
+  domain = domain.split(/[/?#]/)[0];
+  domain = domain.slice(domain.lastIndexOf("@") + 1);
+  domain = domain.replace(/:\d+$/, "").replace(/\.$/, "");
+  return domain.replace(/^www\d*\./, "");
+}
+
+// =============================================================================
+// COUNTRIES
+// =============================================================================
+
+// Names ICU knows for region codes that are not countries
+const NON_COUNTRY_CODES = /^(AA|EU|EZ|UN|ZZ|Q[M-Z]|X[A-JL-Z])$/;
+
+// Common names that differ from ICU's English region names
+const COUNTRY_ALIASES: Record<string, string> = {
+  usa: "US",
+  america: "US",
+  "united states of america": "US",
+  uk: "GB",
+  "great britain": "GB",
+  britain: "GB",
+  england: "GB",
+  scotland: "GB",
+  wales: "GB",
+  "northern ireland": "GB",
+  korea: "KR",
+  "republic of korea": "KR",
+  "russian federation": "RU",
+  "czech republic": "CZ",
+  holland: "NL",
+  "ivory coast": "CI",
+  uae: "AE",
+  burma: "MM",
+};
+
+function countryKey(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[.'\u2019(),]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^the /, "");
+}
+
+// ISO 3166-1 alpha-2 code for every English country name ICU knows, long
+// ("Myanmar (Burma)") and short ("Myanmar") forms alike
+function buildCountryCodes(): Map<string, string> {
+  const codes = new Map<string, string>();
+  const styles = ["long", "short"] as const;
+  const names = styles.map(
+    (style) => new Intl.DisplayNames(["en"], { type: "region", style, fallback: "none" })
+  );
+  for (let first = 65; first <= 90; first++) {
+    for (let second = 65; second <= 90; second++) {
+      const code = String.fromCharCode(first, second);
+      // Skip pseudo-regions and deprecated codes ("UK", "BU") ICU aliases to current ones
+      const current = Intl.getCanonicalLocales(`und-${code}`)[0] === `und-${code}`;
+      if (NON_COUNTRY_CODES.test(code) || !current) continue;
+      for (const display of names) {
+        const name = display.of(code);
+        if (name) codes.set(countryKey(name), code);
+      }
+    }
+  }
+  for (const [alias, code] of Object.entries(COUNTRY_ALIASES)) codes.set(alias, code);
+  return codes;
+}
+
+const COUNTRY_CODES = buildCountryCodes();
+const KNOWN_CODES = new Set(COUNTRY_CODES.values());
+
+// "United States" -> "US", "de" -> "DE"; unrecognised values pass through
+export function canonicalCountry(value: string): string {
+  const trimmed = value.trim();
+  if (/^[a-z]{2}$/i.test(trimmed) && KNOWN_CODES.has(trimmed.toUpperCase())) {
+    return trimmed.toUpperCase();
+  }
+  return COUNTRY_CODES.get(countryKey(trimmed)) ?? trimmed;
+}
+
+// =============================================================================
+// TECHNOLOGIES
+// =============================================================================
+
+// Nicknames and spellings -> the technology names Sumble uses
+const TECHNOLOGY_ALIASES: Record<string, string> = {
+  k8s: "kubernetes",
+  golang: "go",
+  reactjs: "react",
+  "react.js": "react",
+  nodejs: "node.js",
+  node: "node.js",
+  vuejs: "vue",
+  "vue.js": "vue",
+  nextjs: "next.js",
+  postgres: "postgresql",
+  js: "javascript",
+  ts: "typescript",
+  py: "python",
+  "amazon web services": "aws",
+  "microsoft azure": "azure",
+  csharp: "c#",
+  "c sharp": "c#",
+  cpp: "c++",
+  sklearn: "scikit-learn",
+  "scikit learn": "scikit-learn",
+  "elastic search": "elasticsearch",
+  mongo: "mongodb",
+  "apache spark": "spark",
+  "apache kafka": "kafka",
+  "apache airflow": "airflow",
+};
+
+export function canonicalTechnology(value: string): string {
+  const name = value.trim().toLowerCase().replace(/\s+/g, " ");
+  return TECHNOLOGY_ALIASES[name] ?? name;
+}
+
+// =============================================================================
+// TOOL ARGUMENTS
+// =============================================================================
+
+// Argument name -> how to canonicalise each value
+const NORMALIZERS: Record<string, (value: string) => string> = {
+  domain: canonicalDomain,
+  domains: canonicalDomain,
+  technologies: canonicalTechnology,
+  countries: canonicalCountry,
+};
+
+// A change worth reporting: more than case and surrounding whitespace
+function isRewrite(from: string, to: string): boolean {
+  return from.trim().toLowerCase() !== to.toLowerCase();
+}
+
+// Canonicalise the arguments the API matches literally, dropping duplicates a
+// rewrite creates (["k8s", "kubernetes"])
+export function normalizeArgs(args: Record<string, unknown>): {
+  args: Record<string, unknown>;
+  rewrites: Rewrite[];
+} {
+  const normalized = { ...args };
+  const rewrites: Rewrite[] = [];
+  const rewrite = (field: string, from: string) => {
+    const to = NORMALIZERS[field](from);
+    if (isRewrite(from, to)) rewrites.push({ field, from, to });
+    return to;
+  };
+
+  for (const field of Object.keys(NORMALIZERS)) {
+    const value = args[field];
+    if (typeof value === "string") {
+      normalized[field] = rewrite(field, value);
+    } else if (Array.isArray(value)) {
+      normalized[field] = [
+        ...new Set(value.map((item) => (typeof item === "string" ? rewrite(field, item) : item))),
+      ];
+    }
+  }
+  return { args: normalized, rewrites };
+}
+
+export function renderRewrites(rewrites: Rewrite[]): string {
+  const changes = rewrites.map((rewrite) => `${rewrite.field} "${rewrite.from}" → "${rewrite.to}"`);
+  return `_Normalised input: ${changes.join(", ")}_`;
+}
+
+// Report the rewrites applied to a call's arguments in its result
+export function withRewrites(result: CallToolResult, rewrites: Rewrite[]): CallToolResult {
+  if (rewrites.length === 0) return result;
+  return {
+    ...result,
+    content: [...result.content, { type: "text", text: renderRewrites(rewrites) }],
+    ...(result.structuredContent && {
+      structuredContent: { ...result.structuredContent, normalized: rewrites },
+    }),
+  };
+}
@@ -0,0 +1,74 @@
+import { createHash } from "node:crypto";
+import { canonicalize } from "./cache.js";
+
+// =============================================================================
+// PAGINATION
+// =============================================================================
+
+// The API rejects offsets beyond this
+export const MAX_OFFSET = 10000;
+
+// Why automatic pagination stopped
+//   complete     - `max_results` results were collected
+//   exhausted    - the API has no more results
+//   budget       - the credit budget cannot afford another page
+//   offset_limit - the next page would start past MAX_OFFSET
+export type StopReason = "complete" | "exhausted" | "budget" | "offset_limit";
+
+interface CursorState {
+  tool: string;
+  offset: number;
+  // Fingerprint of the search arguments the cursor belongs to
+  args: string;
+}
+
+// Arguments that identify a search, ignoring the paging ones
+function fingerprint(args: Record<string, unknown>): string {
+  const { limit: _limit, offset: _offset, max_results: _max, cursor: _cursor, ...search } = args;
+  return createHash("sha256").update(canonicalize(search)).digest("base64url").slice(0, 16);
+}
+
+export function encodeCursor(tool: string, offset: number, args: Record<string, unknown>): string {
+  const state: CursorState = { tool, offset, args: fingerprint(args) };
+  return Buffer.from(JSON.stringify(state)).toString("base64url");
+}
+
+// Resolve a continuation cursor to the offset it resumes from, rejecting
+// cursors issued for a different tool or different search arguments
+export function decodeCursor(tool: string, cursor: string, args: Record<string, unknown>): number {
+  let state: CursorState;
+  try {
+    state = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid cursor: pass the next_cursor value from a previous result unchanged");
+  }
+  if (state.tool !== tool || state.args !== fingerprint(args) || typeof state.offset !== "number") {
+    throw new Error(
+      `Cursor does not match this ${tool} search: repeat the original arguments with the cursor, or drop the cursor to start over`
+    );
+  }
+  return state.offset;
+}
+
+// Collects results across pages, dropping ones already seen
+export class ResultAccumulator<T> {
+  readonly items: T[] = [];
+  private seen = new Set<string>();
+
+  add(items: T[]): number {
+    let added = 0;
+    for (const item of items) {
+      const key = itemKey(item);
+      if (this.seen.has(key)) continue;
+      this.seen.add(key);
+      this.items.push(item);
+      added++;
+    }
+    return added;
+  }
+}
+
+function itemKey(item: unknown): string {
+  const id = (item as { id?: unknown } | null)?.id;
+  return id === undefined || id === null ? canonicalize(item) : `id:${id}`;
+}
@@ -0,0 +1,121 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+// =============================================================================
+// MCP PROMPTS
+// =============================================================================
+//
+// Parameterised instructions for the research workflows the team runs most,
+// so every MCP client orchestrates the tools and formats the answer the same way.
+
+function userPrompt(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
+
+// Optional comma-separated prompt argument as a quoted list, or a fallback
+function listOrDefault(value: string | undefined, fallback: string): string {
+  const items = (value ?? "").split(",").map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items.map((item) => `"${item}"`).join(", ") : fallback;
+}
+
+export function registerPrompts(server: McpServer) {
+  server.registerPrompt(
+    "account_research_brief",
+    {
+      title: "Account research brief",
+      description: "Research a company's tech stack, hiring and key people, and write a one-page account brief",
+      argsSchema: {
+        domain: z.string().describe("Company web domain (e.g., 'stripe.com')"),
+        technologies: z
+          .string()
+          .optional()
+          .describe("Comma-separated technologies you sell into or care about (e.g., 'snowflake, dbt')"),
+      },
+    },
+    ({ domain, technologies }) =>
+      userPrompt(
+        `Account research brief for ${domain}`,
+        `Write an account research brief for ${domain} using the Sumble tools.
+
+Steps:
+1. Call \`enrich_organization\` with domain "${domain}"${technologies ? ` and technologies [${listOrDefault(technologies, "")}]` : ""}. Note the technologies with the most job posts and people.
+2. Call \`find_jobs\` with domain "${domain}" and limit 20 to see what the company is hiring for now.
+3. Call \`find_people\` with domain "${domain}", job_levels ["Executive", "Director"] and limit 10 to identify leaders.
+
+Then write the brief with these sections:
+- **Snapshot**: name, industry, size and headquarters, in two or three lines.
+- **Tech stack**: a table of the main technologies with job and people counts, grouped by area (data, cloud, languages, ...).
+- **Hiring signals**: the teams and roles being hired for, with what they suggest about current initiatives.
+- **Key people**: a table of name, title and why they matter.
+- **Talking points**: three concrete, evidence-backed angles for outreach, citing the jobs or technologies behind each.
+
+Keep it under one page. Say so when a section has no data rather than guessing.`
+      )
+  );
+
+  server.registerPrompt(
+    "lookalike_companies",
+    {
+      title: "Lookalike companies",
+      description: "Find companies with a tech stack similar to a reference customer",
+      argsSchema: {
+        domain: z.string().describe("Domain of the reference company (e.g., 'datadog.com')"),
+        count: z.string().optional().describe("How many lookalikes to return (default 10)"),
+      },
+    },
+    ({ domain, count }) => {
+      const requested = Number.parseInt(count ?? "", 10);
+      const limit = requested > 0 ? Math.min(requested, 100) : 10;
+      return userPrompt(
+        `Lookalike companies for ${domain}`,
+        `Find ${limit} companies whose tech stack resembles ${domain}'s, using the Sumble tools.
+
+Steps:
+1. Call \`find_similar_organizations\` with domain "${domain}", limit ${limit} and the \`technologies\` the company is known to use. If you don't know its stack, pass \`technology_categories\` instead, or look it up first with \`enrich_organization\` and a technology_categories filter.
+2. Review the ranked candidates and drop any that are clearly a different kind of business.
+
+Answer with:
+- One line naming the fingerprint technologies the search used.
+- A table of the top ${limit}: rank, company, domain, industry, employees, matched technologies.
+- A sentence on any pattern among the results (industry, size) worth knowing.`
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "find_technology_contacts",
+    {
+      title: "Who to contact about a technology",
+      description: "Find the right people at a company to talk to about a given technology",
+      argsSchema: {
+        domain: z.string().describe("Company web domain (e.g., 'shopify.com')"),
+        technology: z.string().describe("Technology or topic to discuss (e.g., 'kubernetes')"),
+        job_levels: z
+          .string()
+          .optional()
+          .describe("Comma-separated seniority levels to include (default 'Director, Manager, Senior')"),
+      },
+    },
+    ({ domain, technology, job_levels }) =>
+      userPrompt(
+        `Contacts at ${domain} for ${technology}`,
+        `Find who I should contact at ${domain} about ${technology}, using the Sumble tools.
+
+Steps:
+1. Call \`enrich_organization\` with domain "${domain}" and technologies ["${technology}"] to confirm they use it and how widely (job and people counts).
+2. Call \`find_jobs\` with domain "${domain}", technologies ["${technology}"] and limit 10 to see which teams work with it.
+3. Call \`find_people\` with domain "${domain}", query "${technology}", job_levels [${listOrDefault(job_levels, '"Director", "Manager", "Senior"')}] and limit 25.
+
+Answer with:
+- One line on how established ${technology} is at ${domain}, citing the counts.
+- A ranked table of up to 10 people: name, title, level, why they are relevant (team, role or matching job posts), profile link.
+- A suggested first contact and one sentence on the angle to open with.
+
+If ${domain} shows no sign of using ${technology}, say so and stop after step 1.`
+      )
+  );
+}
@@ -0,0 +1,69 @@
+// =============================================================================
+// RATE LIMITING
+// =============================================================================
+
+// The Sumble API allows 10 requests per second
+export const SUMBLE_REQUESTS_PER_SECOND = 10;
+
+// Resolve after `ms`, or reject early with the signal's reason if it aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Token bucket: allows bursts of up to `capacity` requests, refilled at
+// `refillPerSecond`. Waiters are served in arrival order.
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private capacity = SUMBLE_REQUESTS_PER_SECOND,
+    private refillPerSecond = SUMBLE_REQUESTS_PER_SECOND
+  ) {
+    this.tokens = capacity;
+  }
+
+  // Wait until a token is available and consume it
+  take(signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(() => this.waitForToken(signal));
+    // A cancelled waiter must not block the ones behind it
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async waitForToken(signal?: AbortSignal) {
+    for (;;) {
+      signal?.throwIfAborted();
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(((1 - this.tokens) / this.refillPerSecond) * 1000, signal);
+    }
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond
+    );
+    this.lastRefill = now;
+  }
+}
@@ -0,0 +1,197 @@
+import { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { SessionBudget } from "./budget.js";
+import { CacheMode } from "./cache.js";
+import { SumbleClient } from "./client.js";
+import type { Config } from "./config.js";
+import {
+  callMetaSchema,
+  callWithinBudget,
+  dryRun,
+  dryRunSchema,
+  errorResult,
+  paginate,
+  paginationSchema,
+} from "./execution.js";
+import { normalizeArgs, rewriteSchema, withRewrites } from "./normalize.js";
+import { decodeCursor, MAX_OFFSET } from "./pagination.js";
+import { describeTool, TOOLS } from "./tools.js";
+import { WORKFLOWS } from "./workflows/index.js";
+import { describeWorkflow } from "./workflows/workflow.js";
+
+// =============================================================================
+// TOOL REGISTRY
+// =============================================================================
+//
+// Registers every tool, API tools and workflows alike, with an McpServer.
+// Every transport builds its servers through createMcpServer (mcpServer.ts),
+// which calls registerTools, so a tool added here shows up identically over
+// all of them.
+
+function maxResultsArg(cap = MAX_OFFSET) {
+  return z
+    .number()
+    .int()
+    .min(1)
+    .max(Math.min(cap, MAX_OFFSET))
+    .optional()
+    .describe(
+      "Fetch up to this many results by paging automatically (overrides limit). Duplicates are dropped, and paging stops early if the credit budget runs out; the result then includes a next_cursor to resume from"
+    );
+}
+
+const cursorArg = z
+  .string()
+  .optional()
+  .describe("Continuation cursor (next_cursor) from a previous result of the same search");
+
+const cacheArg = z
+  .enum(["fresh", "prefer", "bypass"])
+  .default("fresh")
+  .describe(
+    "Response cache use: 'fresh' (default) reuses unexpired cached results, 'prefer' reuses any cached result even if expired, 'bypass' always calls the Sumble API"
+  );
+
+const dryRunArg = z
+  .boolean()
+  .optional()
+  .describe(
+    "If true, validate the arguments and return the exact API request body and a credit estimate without calling the Sumble API (free)"
+  );
+
+type HandlerExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+export interface RegistryOptions {
+  defaults?: Config["defaults"];
+  limits?: Config["limits"];
+}
+
+// Lower the maximum of a `limit` argument to the configured cap
+function capLimit(shape: z.ZodRawShape, cap: number | undefined): z.ZodRawShape {
+  const limit = shape.limit;
+  if (cap === undefined || !(limit instanceof z.ZodDefault)) return shape;
+  const number = limit.removeDefault();
+  if (!(number instanceof z.ZodNumber) || (number.maxValue ?? Infinity) <= cap) return shape;
+  return {
+    ...shape,
+    limit: number
+      .max(cap)
+      .default(Math.min(limit._def.defaultValue(), cap))
+      .describe((limit.description ?? "").replace(/\(1-\d+\)/, `(1-${cap})`)),
+  };
+}
+
+// Apply a tool's configured default arguments, checked against its input
+// schema, as the schema's own defaults: they replace any built-in default
+// rather than being merged in after zod has filled that in
+function withDefaults(name: string, shape: z.ZodRawShape, defaults: Config["defaults"]): z.ZodRawShape {
+  if (!Object.hasOwn(defaults, name)) return shape;
+  const parsed = z.object(shape).partial().strict().safeParse(defaults[name]);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+    throw new Error(`Invalid defaults for ${name}: ${problems.join("; ")}`);
+  }
+  const applied = { ...shape };
+  for (const [key, value] of Object.entries(defaults[name])) {
+    const field = shape[key];
+    const base = field instanceof z.ZodDefault ? field.removeDefault() : field;
+    // A fresh copy per call, so normalizing one call's arguments can't change the next
+    const withDefault = base.default(() => structuredClone(value));
+    applied[key] = field.description ? withDefault.describe(field.description) : withDefault;
+  }
+  return applied;
+}
+
+// Register the API tools and workflows, returning them by name
+export function registerTools(
+  server: McpServer,
+  client: SumbleClient,
+  budget: SessionBudget = new SessionBudget({}),
+  { defaults = {}, limits = {} }: RegistryOptions = {}
+): Record<string, RegisteredTool> {
+  const known = new Set([...TOOLS, ...WORKFLOWS].map((tool) => tool.name));
+  const unknown = Object.keys(defaults).filter((name) => !known.has(name));
+  if (unknown.length > 0) throw new Error(`Defaults given for unknown tools: ${unknown.join(", ")}`);
+
+  const registered: Record<string, RegisteredTool> = {};
+  for (const tool of TOOLS) {
+    const inputSchema = withDefaults(tool.name, capLimit(tool.inputSchema, limits.max_limit), defaults);
+    registered[tool.name] = server.registerTool(
+      tool.name,
+      {
+        description: describeTool(tool),
+        // Strict, so a misspelt argument is rejected instead of silently
+        // dropped, which would widen the search
+        inputSchema: z
+          .object({
+            ...inputSchema,
+            ...(tool.pagination && { max_results: maxResultsArg(limits.max_results), cursor: cursorArg }),
+            cache: cacheArg,
+            dry_run: dryRunArg,
+          })
+          .strict(),
+        outputSchema: tool.responseSchema.extend({
+          call: callMetaSchema.optional(),
+          dry_run: dryRunSchema.optional(),
+          pagination: paginationSchema.optional(),
+          normalized: z.array(rewriteSchema).optional(),
+        }),
+      },
+      async (
+        { dry_run, cache, max_results, cursor, ...input }: Record<string, unknown>,
+        extra: HandlerExtra
+      ): Promise<CallToolResult> => {
+        const { args, rewrites } = normalizeArgs(input);
+        try {
+          if (typeof cursor === "string") args.offset = decodeCursor(tool.name, cursor, args);
+          const maxResults = max_results as number | undefined;
+          if (dry_run) return withRewrites(dryRun(tool, budget, args, maxResults), rewrites);
+
+          const options = { cache: cache as CacheMode, signal: extra.signal, tool: tool.name };
+          const result =
+            maxResults !== undefined
+              ? await paginate(tool, client, budget, args, options, maxResults)
+              : await callWithinBudget(tool, client, budget, args, options);
+          return withRewrites(result, rewrites);
+        } catch (error) {
+          return withRewrites(errorResult(error), rewrites);
+        }
+      }
+    );
+  }
+
+  for (const workflow of WORKFLOWS) {
+    const inputSchema = withDefaults(workflow.name, capLimit(workflow.inputSchema, limits.max_limit), defaults);
+    registered[workflow.name] = server.registerTool(
+      workflow.name,
+      {
+        description: describeWorkflow(workflow),
+        inputSchema: z.object({ ...inputSchema, cache: cacheArg }).strict(),
+        outputSchema: workflow.outputSchema.extend({ normalized: z.array(rewriteSchema).optional() }),
+      },
+      async (
+        { cache, ...input }: Record<string, unknown>,
+        extra: HandlerExtra
+      ): Promise<CallToolResult> => {
+        const { args, rewrites } = normalizeArgs(input);
+        try {
+          const options = { cache: cache as CacheMode, signal: extra.signal, tool: workflow.name };
+          const result = await workflow.run({ client, budget, options }, args);
+          return withRewrites(
+            { content: [{ type: "text", text: result.text }], structuredContent: result.structured },
+            rewrites
+          );
+        } catch (error) {
+          return withRewrites(errorResult(error), rewrites);
+        }
+      }
+    );
+  }
+  return registered;
+}
@@ -0,0 +1,302 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError, ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { ENDPOINTS, OrganizationIdentifier, SumbleClient } from "./client.js";
+import {
+  EnrichOrganizationResponseSchema,
+  FindJobsResponseSchema,
+  FindOrganizationsResponseSchema,
+  FindPeopleResponseSchema,
+  Job,
+  Organization,
+  Person,
+  Technology,
+} from "./models.js";
+import { canonicalDomain } from "./normalize.js";
+
+// =============================================================================
+// MCP RESOURCES
+// =============================================================================
+//
+// Organizations, jobs and people the session has already fetched, exposed as
+// resources so clients can attach them to context. Reading a resource never
+// calls the Sumble API, so it costs no credits.
+
+const MAX_ENTRIES_PER_KIND = 1000;
+
+export interface OrganizationRecord {
+  organization: Organization;
+  // Technologies found by enrich_organization, merged across calls
+  technologies?: Technology[];
+}
+
+export interface PersonRecord {
+  person: Person;
+  // The organization find_people was asked about
+  organization?: OrganizationIdentifier;
+}
+
+// Insertion-ordered map that drops its oldest entries past `maxEntries`
+class RecentMap<V> {
+  private entries = new Map<string, V>();
+
+  constructor(private maxEntries = MAX_ENTRIES_PER_KIND) {}
+
+  get(key: string): V | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, value: V) {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  values(): V[] {
+    return [...this.entries.values()];
+  }
+}
+
+// Results seen in API responses, indexed for resource reads
+export class ResultStore {
+  private organizationsByDomain = new RecentMap<OrganizationRecord>();
+  private organizationsById = new RecentMap<OrganizationRecord>();
+  private jobs = new RecentMap<Job>();
+  private people = new RecentMap<PersonRecord>();
+
+  record(endpoint: string, body: object, data: unknown) {
+    switch (endpoint) {
+      case ENDPOINTS.findOrganizations: {
+        const parsed = FindOrganizationsResponseSchema.safeParse(data);
+        for (const organization of (parsed.success && parsed.data.organizations) || []) {
+          this.recordOrganization(organization);
+        }
+        break;
+      }
+      case ENDPOINTS.enrichOrganization: {
+        const parsed = EnrichOrganizationResponseSchema.safeParse(data);
+        if (parsed.success && parsed.data.organization) {
+          this.recordOrganization(parsed.data.organization, parsed.data.technologies);
+        }
+        break;
+      }
+      case ENDPOINTS.findJobs: {
+        const parsed = FindJobsResponseSchema.safeParse(data);
+        for (const job of (parsed.success && parsed.data.jobs) || []) {
+          if (typeof job.id === "number") this.jobs.set(String(job.id), job);
+        }
+        break;
+      }
+      case ENDPOINTS.findPeople: {
+        const parsed = FindPeopleResponseSchema.safeParse(data);
+        const { organization } = body as { organization?: OrganizationIdentifier };
+        for (const person of (parsed.success && parsed.data.people) || []) {
+          if (typeof person.id === "number") this.people.set(String(person.id), { person, organization });
+        }
+        break;
+      }
+    }
+  }
+
+  private recordOrganization(organization: Organization, technologies?: Technology[]) {
+    const domain = organization.domain ? canonicalDomain(organization.domain) : undefined;
+    const id = typeof organization.id === "number" ? String(organization.id) : undefined;
+    if (!domain && !id) return;
+
+    const existing =
+      (domain && this.organizationsByDomain.get(domain)) || (id && this.organizationsById.get(id)) || undefined;
+    const record: OrganizationRecord = {
+      organization: { ...existing?.organization, ...organization },
+      technologies: mergeTechnologies(existing?.technologies, technologies),
+    };
+    if (domain) this.organizationsByDomain.set(domain, record);
+    if (id) this.organizationsById.set(id, record);
+  }
+
+  organizationByDomain(domain: string): OrganizationRecord | undefined {
+    return this.organizationsByDomain.get(canonicalDomain(domain));
+  }
+
+  organizationById(id: string): OrganizationRecord | undefined {
+    return this.organizationsById.get(id);
+  }
+
+  job(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  person(id: string): PersonRecord | undefined {
+    return this.people.get(id);
+  }
+
+  allOrganizations(): OrganizationRecord[] {
+    return [...new Set([...this.organizationsByDomain.values(), ...this.organizationsById.values()])];
+  }
+
+  allJobs(): Job[] {
+    return this.jobs.values();
+  }
+
+  allPeople(): PersonRecord[] {
+    return this.people.values();
+  }
+}
+
+// Later enrichments replace earlier data for the same technology
+function mergeTechnologies(
+  existing: Technology[] | undefined,
+  incoming: Technology[] | undefined
+): Technology[] | undefined {
+  if (!existing) return incoming;
+  if (!incoming) return existing;
+  const byName = new Map(existing.map((tech) => [tech.name ?? "", tech]));
+  for (const tech of incoming) byName.set(tech.name ?? "", tech);
+  return [...byName.values()];
+}
+
+// =============================================================================
+// RESOURCE TEMPLATES
+// =============================================================================
+
+function jsonContents(uri: URL, value: unknown): ReadResourceResult {
+  return {
+    contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(value, null, 2) }],
+  };
+}
+
+function notFetched(what: string, tools: string): McpError {
+  return new McpError(
+    ErrorCode.InvalidParams,
+    `${what} has not been fetched in this session. Call ${tools} first; its results then become readable here.`
+  );
+}
+
+function single(value: string | string[]): string {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export interface ResourceOptions {
+  // Offer the resource templates (default true). A stateless server leaves them
+  // out: a later request could never read what an earlier one fetched.
+  templates?: boolean;
+}
+
+// Register the resource templates, fed by every response `client` serves
+export function registerResources(server: McpServer, client: SumbleClient, options: ResourceOptions = {}): ResultStore {
+  const store = new ResultStore();
+  client.onResponse((endpoint, body, data) => store.record(endpoint, body, data));
+  if (options.templates === false) return store;
+
+  server.registerResource(
+    "organization",
+    new ResourceTemplate("sumble://organization/{domain}", {
+      list: () => ({
+        resources: store.allOrganizations().flatMap(({ organization }) =>
+          organization.domain
+            ? [{
+                uri: `sumble://organization/${canonicalDomain(organization.domain)}`,
+                name: organization.name ?? organization.domain,
+                mimeType: "application/json",
+              }]
+            : []
+        ),
+      }),
+      complete: {
+        domain: (value) =>
+          store
+            .allOrganizations()
+            .flatMap(({ organization }) => (organization.domain ? [canonicalDomain(organization.domain)] : []))
+            .filter((domain) => domain.startsWith(value.toLowerCase())),
+      },
+    }),
+    {
+      title: "Organization profile",
+      description:
+        "Company profile and any technologies found for it, from find_organizations and enrich_organization results in this session",
+      mimeType: "application/json",
+    },
+    (uri, { domain }) => {
+      const record = store.organizationByDomain(single(domain));
+      if (!record) throw notFetched(`Organization ${single(domain)}`, "enrich_organization or find_organizations");
+      return jsonContents(uri, record);
+    }
+  );
+
+  server.registerResource(
+    "organization-technologies",
+    new ResourceTemplate("sumble://organization/{id}/technologies", {
+      list: () => ({
+        resources: store.allOrganizations().flatMap(({ organization, technologies }) =>
+          typeof organization.id === "number" && technologies
+            ? [{
+                uri: `sumble://organization/${organization.id}/technologies`,
+                name: `${organization.name ?? organization.domain ?? organization.id} technologies`,
+                mimeType: "application/json",
+              }]
+            : []
+        ),
+      }),
+    }),
+    {
+      title: "Organization technologies",
+      description: "Technologies enrich_organization found for an organization, by Sumble organization ID",
+      mimeType: "application/json",
+    },
+    (uri, { id }) => {
+      const record = store.organizationById(single(id));
+      if (!record?.technologies) throw notFetched(`Technologies for organization ${single(id)}`, "enrich_organization");
+      return jsonContents(uri, { organization: record.organization, technologies: record.technologies });
+    }
+  );
+
+  server.registerResource(
+    "job",
+    new ResourceTemplate("sumble://job/{id}", {
+      list: () => ({
+        resources: store.allJobs().map((job) => ({
+          uri: `sumble://job/${job.id}`,
+          name: [job.job_title, job.organization_name].filter(Boolean).join(" at ") || `Job ${job.id}`,
+          mimeType: "application/json",
+        })),
+      }),
+    }),
+    {
+      title: "Job posting",
+      description: "A job posting returned by find_jobs in this session, including its description",
+      mimeType: "application/json",
+    },
+    (uri, { id }) => {
+      const job = store.job(single(id));
+      if (!job) throw notFetched(`Job ${single(id)}`, "find_jobs");
+      return jsonContents(uri, job);
+    }
+  );
+
+  server.registerResource(
+    "person",
+    new ResourceTemplate("sumble://person/{id}", {
+      list: () => ({
+        resources: store.allPeople().map(({ person }) => ({
+          uri: `sumble://person/${person.id}`,
+          name: [person.name, person.job_title].filter(Boolean).join(", ") || `Person ${person.id}`,
+          mimeType: "application/json",
+        })),
+      }),
+    }),
+    {
+      title: "Person",
+      description: "A person returned by find_people in this session",
+      mimeType: "application/json",
+    },
+    (uri, { id }) => {
+      const person = store.person(single(id));
+      if (!person) throw notFetched(`Person ${single(id)}`, "find_people");
+      return jsonContents(uri, person);
+    }
+  );
+
+  return store;
+}
@@ -0,0 +1,31 @@
+import { randomUUID } from "node:crypto";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { SumbleClient } from "./client.js";
+import { Config } from "./config.js";
+import { logger, registerSecret } from "./logger.js";
+import { createMcpServer, createServices } from "./mcpServer.js";
+
+// =============================================================================
+// STDIO TRANSPORT
+// =============================================================================
+
+// A stdio process serves a single session, billed to SUMBLE_API_KEY
+export async function serveStdio(config: Config, env: NodeJS.ProcessEnv = process.env) {
+  const apiKey = env.SUMBLE_API_KEY;
+  if (!apiKey) throw new Error("SUMBLE_API_KEY environment variable is required");
+
+  // Keep the key out of logs, whatever message it ends up in
+  registerSecret(apiKey);
+  const services = createServices(config);
+  const client = new SumbleClient({
+    apiKey,
+    baseUrl: config.sumble.base_url,
+    cache: services.cache,
+    usage: services.usage,
+    session: randomUUID(),
+  });
+  const server = createMcpServer(services, client, { exportDir: config.export.dir });
+
+  await server.connect(new StdioServerTransport());
+  logger.info("Sumble MCP Server running on stdio");
+}
@@ -0,0 +1,73 @@
+import { RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { Attributes, Span, SpanKind, SpanStatusCode, trace } from "@opentelemetry/api";
+import { logger, withLogContext } from "./logger.js";
+import { metrics } from "./metrics.js";
+
+// =============================================================================
+// TRACING
+// =============================================================================
+//
+// Spans go through the OpenTelemetry API, which does nothing until the process
+// registers an SDK (for example with `node --import @opentelemetry/auto-instrumentations-node/register`).
+// Attributes never include API keys or tool arguments.
+
+const tracer = trace.getTracer("sumble-mcp-server", "1.0.0");
+
+// Run fn inside an active span, recording a thrown error on it
+export async function withSpan<T>(
+  name: string,
+  options: { kind?: SpanKind; attributes?: Attributes },
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  return tracer.startActiveSpan(name, options, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+// =============================================================================
+// TOOL CALL INSTRUMENTATION
+// =============================================================================
+
+// Fields of the SDK's request handler extra used here; always the last handler argument
+interface CallContext {
+  sessionId?: string;
+  requestId?: string | number;
+}
+
+// Wrap a tool's handler so each call gets a span, a log entry and a metric sample
+export function instrumentTool(name: string, tool: RegisteredTool) {
+  const handler = tool.handler as (...params: unknown[]) => Promise<CallToolResult>;
+  const instrumented = (...params: unknown[]) => {
+    const extra = params[params.length - 1] as CallContext;
+    const fields = { tool: name, session_id: extra.sessionId, mcp_request_id: extra.requestId };
+    return withLogContext(fields, () =>
+      withSpan(
+        `tool ${name}`,
+        { kind: SpanKind.SERVER, attributes: { "mcp.tool.name": name, ...(extra.sessionId && { "mcp.session.id": extra.sessionId }) } },
+        async (span) => {
+          const startedAt = Date.now();
+          let status = "error";
+          try {
+            const result = await handler(...params);
+            status = result.isError ? "error" : "success";
+            if (result.isError) span.setStatus({ code: SpanStatusCode.ERROR });
+            return result;
+          } finally {
+            metrics.toolCalls.inc({ tool: name, status });
+            logger.info("Tool call", { status, duration_ms: Date.now() - startedAt });
+          }
+        }
+      )
+    );
+  };
+  tool.handler = instrumented as RegisteredTool["handler"];
+}
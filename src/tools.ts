@@ -0,0 +1,464 @@
+import { z } from "zod";
+import {
+  EnrichOrganizationParams,
+  ENDPOINTS,
+  FindJobsParams,
+  FindOrganizationsParams,
+  FindPeopleParams,
+  JobFilters,
+  OrganizationIdentifier,
+  PeopleFilters,
+  TechnologyFilters,
+} from "./client.js";
+import { renderEnrichment, renderJobs, renderOrganizations, renderPeople } from "./format.js";
+import {
+  EnrichOrganizationResponseSchema,
+  FindJobsResponseSchema,
+  FindOrganizationsResponseSchema,
+  FindPeopleResponseSchema,
+} from "./models.js";
+import { MAX_OFFSET } from "./pagination.js";
+
+// =============================================================================
+// TOOL TYPES
+// =============================================================================
+//
+// Every Sumble API tool is defined exactly once here; registry.ts registers
+// them with the MCP server of every transport.
+
+export interface CreditCost {
+  credits: number;
+  per: string;
+}
+
+export type ToolArgs<Shape extends z.ZodRawShape> = z.objectOutputType<Shape, z.ZodTypeAny>;
+
+export interface ToolDefinition<
+  Shape extends z.ZodRawShape = z.ZodRawShape,
+  Body = unknown,
+  Response extends z.AnyZodObject = z.AnyZodObject,
+> {
+  name: string;
+  description: string;
+  usage: string[];
+  cost: CreditCost;
+  // Credits charged per billable result; defaults to cost.credits
+  creditsPerResult?: (args: ToolArgs<Shape>) => number;
+  // Upper bound on billable results, used for worst-case estimates
+  maxResults: (args: ToolArgs<Shape>) => number;
+  // Billable results contained in an API response
+  countResults: (response: z.infer<Response>) => number;
+  inputSchema: Shape;
+  // Sumble endpoint the request body is sent to
+  endpoint: string;
+  // Translate tool arguments into the exact request body sent to the API
+  buildRequest: (args: ToolArgs<Shape>) => Body;
+  // Validates the API response, which is returned as structured content
+  responseSchema: Response;
+  // Compact text rendering of the response for the model
+  render: (response: z.infer<Response>) => string;
+  // List tools: the response field holding results and the largest page the
+  // API serves, enabling automatic pagination via `max_results`
+  pagination?: { listKey: string; maxPageSize: number };
+}
+
+export type AnyTool = ToolDefinition<any, any, any>;
+
+function defineTool<Shape extends z.ZodRawShape, Body, Response extends z.AnyZodObject>(
+  tool: ToolDefinition<Shape, Body, Response>
+): ToolDefinition<Shape, Body, Response> {
+  return tool;
+}
+
+// Technologies looked up by enrich_organization when no filter is given
+export const DEFAULT_ENRICH_TECHNOLOGIES = [
+  "python",
+  "javascript",
+  "typescript",
+  "react",
+  "node.js",
+  "aws",
+  "docker",
+  "kubernetes",
+];
+
+// =============================================================================
+// SHARED ARGUMENTS
+// =============================================================================
+
+export const organizationArgs = {
+  domain: z.string().optional().describe("Company web domain (e.g., 'google.com')"),
+  organization_id: z.number().int().optional().describe("Sumble organization ID"),
+  slug: z.string().optional().describe("Sumble organization slug"),
+};
+
+export const technologyArgs = {
+  technologies: z
+    .array(z.string())
+    .optional()
+    .describe("List of technologies to search for (e.g., ['python', 'react', 'aws'])"),
+  technology_categories: z
+    .array(z.string())
+    .optional()
+    .describe("List of technology categories to search for"),
+};
+
+export const countriesArg = z
+  .array(z.string())
+  .optional()
+  .describe("Countries to filter by, as ISO codes or names (e.g., ['US', 'CA'])");
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// A calendar date in YYYY-MM-DD form
+export function dateArg(description: string) {
+  return z
+    .string()
+    .regex(DATE_PATTERN, "Use the format YYYY-MM-DD (e.g., '2024-01-31')")
+    .refine(
+      (value) => {
+        // Malformed values are already reported by the pattern
+        if (!DATE_PATTERN.test(value)) return true;
+        const date = new Date(`${value}T00:00:00Z`);
+        return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+      },
+      (value) => ({ message: `${value} is not a valid calendar date` })
+    )
+    .optional()
+    .describe(`${description}. Format: YYYY-MM-DD`);
+}
+
+export const sinceArg = dateArg("Only consider data since this date");
+
+export function limitArg(maximum: number, noun: string) {
+  return z
+    .number()
+    .int()
+    .min(1)
+    .max(maximum)
+    .default(10)
+    .describe(`Maximum number of ${noun} to return (1-${maximum})`);
+}
+
+// Largest page each list endpoint serves
+const PAGE_SIZES = { organizations: 200, jobs: 100, people: 250 };
+
+export const offsetArg = z
+  .number()
+  .int()
+  .min(0)
+  .max(MAX_OFFSET)
+  .default(0)
+  .describe("Number of results to skip for pagination");
+
+// Build the organization identifier from whichever one argument names it. Two
+// identifiers could name different organizations, so that is an error.
+export function organizationFrom(args: {
+  domain?: string;
+  organization_id?: number;
+  slug?: string;
+}): OrganizationIdentifier | undefined {
+  const given = (["domain", "organization_id", "slug"] as const).filter(
+    (field) => args[field] !== undefined && args[field] !== ""
+  );
+  if (given.length > 1) {
+    throw new Error(
+      `Conflicting organization identifiers (${given.join(", ")}): pass only one of domain, organization_id or slug`
+    );
+  }
+  if (args.domain) return { domain: args.domain };
+  if (args.organization_id !== undefined) return { id: args.organization_id };
+  if (args.slug) return { slug: args.slug };
+  return undefined;
+}
+
+export function requireOrganization(args: {
+  domain?: string;
+  organization_id?: number;
+  slug?: string;
+}): OrganizationIdentifier {
+  const organization = organizationFrom(args);
+  if (!organization) throw new Error("Must provide domain, organization_id, or slug");
+  return organization;
+}
+
+// Drop unset and empty filter values so only meaningful filters are sent
+function compactFilters<T extends object>(filters: T): Partial<T> {
+  const result: Partial<T> = {};
+  for (const [key, value] of Object.entries(filters)) {
+    if (value === undefined || value === "") continue;
+    if (Array.isArray(value) && value.length === 0) continue;
+    result[key as keyof T] = value;
+  }
+  return result;
+}
+
+function hasFilters(filters: object): boolean {
+  return Object.keys(filters).length > 0;
+}
+
+// Categories and free-text queries can match many technologies; assume this
+// many per category/query when estimating enrich_organization's worst case
+const TECHNOLOGIES_PER_OPEN_FILTER = 10;
+
+// =============================================================================
+// TOOL DEFINITIONS
+// =============================================================================
+
+export const findOrganizations = defineTool({
+  name: "find_organizations",
+  description:
+    "Find organizations matching specific filters. Use this to discover companies based on their technology stack, industry, or other criteria.",
+  usage: [
+    "Find companies using Python",
+    "Find companies in a specific technology category",
+    "Search for organizations matching a query",
+  ],
+  cost: { credits: 5, per: "filter per organization found (minimum 5 credits per org)" },
+  creditsPerResult: (args) =>
+    5 *
+    Math.max(
+      1,
+      (args.technologies?.length ?? 0) +
+        (args.technology_categories?.length ?? 0) +
+        (args.query ? 1 : 0)
+    ),
+  maxResults: (args) => args.limit,
+  countResults: (response) => response.organizations?.length ?? 0,
+  pagination: { listKey: "organizations", maxPageSize: PAGE_SIZES.organizations },
+  inputSchema: {
+    ...technologyArgs,
+    query: z.string().optional().describe("Free-text query to search organizations"),
+    since: sinceArg,
+    order_by_column: z
+      .enum([
+        "industry",
+        "employee_count",
+        "employee_count_int",
+        "first_activity_time",
+        "last_activity_time",
+        "jobs_count",
+        "teams_count",
+        "people_count",
+        "jobs_count_growth_6mo",
+        "cloud_spend_estimate_millions_usd",
+      ])
+      .optional()
+      .describe("Column to order results by"),
+    order_by_direction: z.enum(["ASC", "DESC"]).optional().describe("Sort direction"),
+    limit: limitArg(PAGE_SIZES.organizations, "results"),
+    offset: offsetArg,
+  },
+  endpoint: ENDPOINTS.findOrganizations,
+  responseSchema: FindOrganizationsResponseSchema,
+  render: renderOrganizations,
+  buildRequest: (args): FindOrganizationsParams => {
+    const filters: TechnologyFilters = compactFilters({
+      technologies: args.technologies,
+      technology_categories: args.technology_categories,
+      since: args.since,
+      query: args.query,
+    });
+
+    if (!hasFilters(filters)) {
+      throw new Error("Provide at least one filter: technologies, technology_categories or query");
+    }
+
+    return {
+      filters,
+      order_by_column: args.order_by_column,
+      order_by_direction: args.order_by_direction,
+      limit: args.limit,
+      offset: args.offset,
+    };
+  },
+});
+
+export const enrichOrganization = defineTool({
+  name: "enrich_organization",
+  description:
+    "Enrich a specific organization with technology data. Provide either a domain, Sumble ID, or slug to identify the organization. " +
+    `When no technology filter is given, a default set is checked (${DEFAULT_ENRICH_TECHNOLOGIES.join(", ")}).`,
+  usage: [
+    "Get detailed technology stack for a company",
+    "Find what specific technologies a company uses",
+    "Discover technology adoption details including job posts and team usage",
+  ],
+  cost: { credits: 5, per: "technology found" },
+  maxResults: (args) => {
+    const openFilters = (args.technology_categories?.length ?? 0) + (args.query ? 1 : 0);
+    const technologies = args.technologies?.length
+      ? args.technologies.length
+      : openFilters > 0
+        ? 0
+        : DEFAULT_ENRICH_TECHNOLOGIES.length;
+    return technologies + openFilters * TECHNOLOGIES_PER_OPEN_FILTER;
+  },
+  countResults: (response) => response.technologies?.length ?? 0,
+  inputSchema: {
+    ...organizationArgs,
+    technologies: z.array(z.string()).optional().describe("Specific technologies to search for"),
+    technology_categories: z
+      .array(z.string())
+      .optional()
+      .describe("Technology categories to search for"),
+    query: z.string().optional().describe("Free-text query for technology search"),
+    since: sinceArg,
+  },
+  endpoint: ENDPOINTS.enrichOrganization,
+  responseSchema: EnrichOrganizationResponseSchema,
+  render: renderEnrichment,
+  buildRequest: (args): EnrichOrganizationParams => {
+    const organization = requireOrganization(args);
+    const filters: TechnologyFilters = compactFilters({
+      technologies: args.technologies,
+      technology_categories: args.technology_categories,
+      since: args.since,
+      query: args.query,
+    });
+    if (!filters.technologies && !filters.technology_categories && !filters.query) {
+      filters.technologies = DEFAULT_ENRICH_TECHNOLOGIES;
+    }
+
+    return { organization, filters };
+  },
+});
+
+export const findJobs = defineTool({
+  name: "find_jobs",
+  description:
+    "Find job listings, optionally scoped to a specific organization. Search by technologies, categories, or countries.",
+  usage: [
+    "Find job postings that mention specific technologies",
+    "Discover hiring trends at companies",
+    "Research job market for specific skills",
+  ],
+  cost: { credits: 3, per: "job retrieved" },
+  maxResults: (args) => args.limit,
+  countResults: (response) => response.jobs?.length ?? 0,
+  pagination: { listKey: "jobs", maxPageSize: PAGE_SIZES.jobs },
+  inputSchema: {
+    domain: z.string().optional().describe("Company domain to scope the search (optional)"),
+    organization_id: z
+      .number()
+      .int()
+      .optional()
+      .describe("Sumble organization ID to scope the search (optional)"),
+    slug: z.string().optional().describe("Sumble organization slug to scope the search (optional)"),
+    technologies: z
+      .array(z.string())
+      .optional()
+      .describe("Technologies to search for in job postings"),
+    technology_categories: z
+      .array(z.string())
+      .optional()
+      .describe("Technology categories to search for"),
+    countries: countriesArg,
+    query: z.string().optional().describe("Free-text query for job search"),
+    since: dateArg("Only consider jobs since this date"),
+    limit: limitArg(PAGE_SIZES.jobs, "jobs"),
+    offset: offsetArg,
+  },
+  endpoint: ENDPOINTS.findJobs,
+  responseSchema: FindJobsResponseSchema,
+  render: renderJobs,
+  buildRequest: (args): FindJobsParams => {
+    const filters: JobFilters = compactFilters({
+      technologies: args.technologies,
+      technology_categories: args.technology_categories,
+      countries: args.countries,
+      since: args.since,
+      query: args.query,
+    });
+
+    const organization = organizationFrom(args);
+    if (!organization && !hasFilters(filters)) {
+      throw new Error(
+        "Provide an organization (domain, organization_id or slug) or at least one filter: technologies, technology_categories, countries, query or since"
+      );
+    }
+
+    return {
+      organization,
+      filters,
+      limit: args.limit,
+      offset: args.offset,
+    };
+  },
+});
+
+export const findPeople = defineTool({
+  name: "find_people",
+  description:
+    "Find people at a specific organization. Filter by job function, job level, or country.",
+  usage: [
+    "Find decision-makers at a company",
+    "Discover team members with specific roles",
+    "Research organizational structure",
+  ],
+  cost: { credits: 1, per: "person found" },
+  maxResults: (args) => args.limit,
+  countResults: (response) => response.people?.length ?? 0,
+  pagination: { listKey: "people", maxPageSize: PAGE_SIZES.people },
+  inputSchema: {
+    ...organizationArgs,
+    job_functions: z
+      .array(z.string())
+      .optional()
+      .describe("Job functions to filter by (e.g., ['Engineer', 'Executive'])"),
+    job_levels: z
+      .array(z.string())
+      .optional()
+      .describe("Job levels to filter by (e.g., ['Senior', 'Manager'])"),
+    countries: countriesArg,
+    query: z.string().optional().describe("Free-text query for people search"),
+    since: sinceArg,
+    limit: limitArg(PAGE_SIZES.people, "people"),
+    offset: offsetArg,
+  },
+  endpoint: ENDPOINTS.findPeople,
+  responseSchema: FindPeopleResponseSchema,
+  render: renderPeople,
+  buildRequest: (args): FindPeopleParams => {
+    const organization = requireOrganization(args);
+    const filters: PeopleFilters = compactFilters({
+      job_functions: args.job_functions,
+      job_levels: args.job_levels,
+      countries: args.countries,
+      since: args.since,
+      query: args.query,
+    });
+
+    return {
+      organization,
+      filters,
+      limit: args.limit,
+      offset: args.offset,
+    };
+  },
+});
+
+export const TOOLS: AnyTool[] = [
+  findOrganizations,
+  enrichOrganization,
+  findJobs,
+  findPeople,
+];
+
+// =============================================================================
+// DESCRIPTIONS
+// =============================================================================
+
+export function formatCost(cost: CreditCost): string {
+  return `${cost.credits} ${cost.credits === 1 ? "credit" : "credits"} per ${cost.per}`;
+}
+
+export function describeTool(tool: AnyTool): string {
+  const usage = tool.usage.map((line) => `- ${line}`).join("\n");
+  return `${tool.description}
+
+Cost: ${formatCost(tool.cost)}.
+
+Use this to:
+${usage}`;
+}
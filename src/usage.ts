@@ -0,0 +1,293 @@
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { appendFile, readFile } from "node:fs/promises";
+import { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { canonicalize } from "./cache.js";
+import { textResult } from "./execution.js";
+import { markdownTable } from "./format.js";
+import { logger } from "./logger.js";
+import { metrics } from "./metrics.js";
+import { dateArg, TOOLS } from "./tools.js";
+
+// =============================================================================
+// USAGE LEDGER
+// =============================================================================
+//
+// One record per request SumbleClient sends to the API, so credit spend can be
+// traced back to sessions, users and tools. Records are appended to a JSONL
+// file when one is configured (usage.file), and kept in memory otherwise.
+
+export interface UsageRecord {
+  timestamp: string;
+  session?: string;
+  user?: string;
+  // MCP tool the call was made for (a workflow's name for its inner calls)
+  tool?: string;
+  endpoint: string;
+  // Hash of the canonicalised request body; equal hashes are the same question
+  body_hash: string;
+  // Identifier of the Sumble API key billed (see apiKeyId)
+  api_key_id: string;
+  results: number;
+  // The API's credits_used, or the credits the call's budget counted for its results
+  credits: number;
+  latency_ms: number;
+  status: "ok" | "error";
+  http_status?: number;
+  error?: string;
+}
+
+// What the client knows about a finished request
+export interface UsageEvent {
+  session?: string;
+  user?: string;
+  tool?: string;
+  endpoint: string;
+  body: object;
+  apiKeyId: string;
+  startedAt: number;
+  data?: unknown;
+  error?: unknown;
+  // Credits the response cost, as the credit budget counted them
+  credits?: number;
+}
+
+const MAX_MEMORY_RECORDS = 50_000;
+
+function bodyHash(body: object): string {
+  return createHash("sha256").update(canonicalize(body)).digest("hex").slice(0, 16);
+}
+
+// Results in a response: the length of whichever result list it carries
+function countResults(data: unknown): number {
+  if (!data || typeof data !== "object") return 0;
+  for (const key of ["organizations", "technologies", "jobs", "people"]) {
+    const list = (data as Record<string, unknown>)[key];
+    if (Array.isArray(list)) return list.length;
+  }
+  return 0;
+}
+
+// For requests made outside a tool call, which have no budget accounting to reuse
+function estimateCredits(endpoint: string, data: unknown, results: number): number {
+  const reported = (data as { credits_used?: unknown } | undefined)?.credits_used;
+  if (typeof reported === "number") return reported;
+  const tool = TOOLS.find((candidate) => candidate.endpoint === endpoint);
+  return results * (tool?.cost.credits ?? 0);
+}
+
+export class UsageLedger {
+  private memory: UsageRecord[] = [];
+  private writing: Promise<void> = Promise.resolve();
+
+  // Without a path, records live only as long as the process
+  constructor(private path?: string) {}
+
+  record(event: UsageEvent) {
+    const results = event.error === undefined ? countResults(event.data) : 0;
+    const status = (event.error as { status?: unknown } | undefined)?.status;
+    const record: UsageRecord = {
+      timestamp: new Date(event.startedAt).toISOString(),
+      session: event.session,
+      user: event.user,
+      tool: event.tool,
+      endpoint: event.endpoint,
+      body_hash: bodyHash(event.body),
+      api_key_id: event.apiKeyId,
+      results,
+      credits: event.error === undefined ? event.credits ?? estimateCredits(event.endpoint, event.data, results) : 0,
+      latency_ms: Date.now() - event.startedAt,
+      status: event.error === undefined ? "ok" : "error",
+      ...(typeof status === "number" && { http_status: status }),
+      ...(event.error !== undefined && {
+        error: event.error instanceof Error ? event.error.message.slice(0, 200) : String(event.error),
+      }),
+    };
+    metrics.creditsSpent.inc({ tool: record.tool ?? "unknown" }, record.credits);
+
+    if (!this.path) {
+      this.memory.push(record);
+      if (this.memory.length > MAX_MEMORY_RECORDS) this.memory.shift();
+      return;
+    }
+    // Appends are chained so records land in the order they were made
+    const path = this.path;
+    this.writing = this.writing
+      .then(() => appendFile(path, `${JSON.stringify(record)}\n`))
+      .catch((error) => logger.error("Failed to write usage file", { path, error }));
+  }
+
+  async records(): Promise<UsageRecord[]> {
+    if (!this.path) return [...this.memory];
+    await this.writing;
+    if (!existsSync(this.path)) return [];
+    const lines = (await readFile(this.path, "utf8")).split("\n");
+    // Skip a torn last line left by a crash mid-append
+    return lines.flatMap((line) => {
+      if (!line.trim()) return [];
+      try {
+        return [JSON.parse(line) as UsageRecord];
+      } catch {
+        return [];
+      }
+    });
+  }
+}
+
+// =============================================================================
+// REPORTS
+// =============================================================================
+
+export interface UsageFilter {
+  // Inclusive UTC days, YYYY-MM-DD
+  since?: string;
+  until?: string;
+  user?: string;
+  tool?: string;
+}
+
+const usageGroupSchema = z.object({
+  name: z.string(),
+  calls: z.number(),
+  errors: z.number(),
+  results: z.number(),
+  credits: z.number(),
+  avg_latency_ms: z.number(),
+});
+
+type UsageGroup = z.infer<typeof usageGroupSchema>;
+
+export const usageReportSchema = z.object({
+  filter: z.object({
+    since: z.string().nullable(),
+    until: z.string().nullable(),
+    user: z.string().nullable(),
+    tool: z.string().nullable(),
+  }),
+  totals: usageGroupSchema.omit({ name: true }),
+  by_day: z.array(usageGroupSchema),
+  by_tool: z.array(usageGroupSchema),
+  by_user: z.array(usageGroupSchema),
+});
+
+export type UsageReport = z.infer<typeof usageReportSchema>;
+
+function matches(record: UsageRecord, filter: UsageFilter): boolean {
+  const day = record.timestamp.slice(0, 10);
+  return (
+    (!filter.since || day >= filter.since) &&
+    (!filter.until || day <= filter.until) &&
+    (!filter.user || record.user === filter.user) &&
+    (!filter.tool || record.tool === filter.tool)
+  );
+}
+
+function aggregate(records: UsageRecord[], keyOf: (record: UsageRecord) => string): UsageGroup[] {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const key = keyOf(record);
+    const members = groups.get(key) ?? [];
+    members.push(record);
+    groups.set(key, members);
+  }
+  return [...groups].map(([name, members]) => ({ name, ...totals(members) }));
+}
+
+function totals(records: UsageRecord[]): Omit<UsageGroup, "name"> {
+  const sum = (value: (record: UsageRecord) => number) =>
+    records.reduce((total, record) => total + value(record), 0);
+  return {
+    calls: records.length,
+    errors: records.filter((record) => record.status === "error").length,
+    results: sum((record) => record.results),
+    credits: sum((record) => record.credits),
+    avg_latency_ms: records.length ? Math.round(sum((record) => record.latency_ms) / records.length) : 0,
+  };
+}
+
+export function usageReport(records: UsageRecord[], filter: UsageFilter = {}): UsageReport {
+  const selected = records.filter((record) => matches(record, filter));
+  const byCredits = (a: UsageGroup, b: UsageGroup) => b.credits - a.credits || b.calls - a.calls;
+  return {
+    filter: {
+      since: filter.since ?? null,
+      until: filter.until ?? null,
+      user: filter.user ?? null,
+      tool: filter.tool ?? null,
+    },
+    totals: totals(selected),
+    by_day: aggregate(selected, (record) => record.timestamp.slice(0, 10)).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    ),
+    by_tool: aggregate(selected, (record) => record.tool ?? "(unknown)").sort(byCredits),
+    by_user: aggregate(selected, (record) => record.user ?? "(anonymous)").sort(byCredits),
+  };
+}
+
+function renderUsageReport(report: UsageReport): string {
+  const { totals } = report;
+  const period = [report.filter.since, report.filter.until].every((day) => day === null)
+    ? "all recorded usage"
+    : `${report.filter.since ?? "the start"} to ${report.filter.until ?? "today"}`;
+  const lines = [
+    `Sumble usage for ${period}: ${totals.credits} credits across ${totals.calls} API calls (${totals.errors} failed).`,
+  ];
+  const table = (label: string, groups: UsageGroup[]) =>
+    markdownTable(
+      [label, "Calls", "Errors", "Results", "Credits", "Avg latency (ms)"],
+      groups.map((group) => [
+        group.name,
+        group.calls,
+        group.errors,
+        group.results,
+        group.credits,
+        group.avg_latency_ms,
+      ])
+    );
+  if (totals.calls > 0) {
+    lines.push("", table("Day", report.by_day), "", table("Tool", report.by_tool));
+    if (report.by_user.length > 1 || report.filter.user === null) {
+      lines.push("", table("User", report.by_user));
+    }
+  }
+  return lines.join("\n");
+}
+
+// Usage reporting for a session. With a user, the report only covers that
+// user's calls; the admin endpoint on the HTTP server reports on everyone.
+export function registerUsageTool(server: McpServer, ledger: UsageLedger, user?: string): RegisteredTool {
+  return server.registerTool(
+    "get_usage_report",
+    {
+      description: `Report Sumble credit usage, aggregated by day, tool and user${
+        user ? " (limited to your own calls)" : ""
+      }. Every API call the server makes is recorded with its credits, result count, latency and status.
+
+Cost: free (no Sumble API call).
+
+Use this to:
+- See how many credits were spent today or over a date range
+- Find which tools or workflows spend the most credits
+- Spot failing calls`,
+      inputSchema: {
+        since: dateArg("First UTC day to include"),
+        until: dateArg("Last UTC day to include"),
+        tool: z.string().optional().describe("Only include calls made by this tool"),
+      },
+      outputSchema: usageReportSchema,
+    },
+    async ({ since, until, tool }): Promise<CallToolResult> => {
+      try {
+        const report = usageReport(await ledger.records(), { since, until, tool, user });
+        return {
+          content: [{ type: "text", text: renderUsageReport(report) }],
+          structuredContent: report,
+        };
+      } catch (error) {
+        return textResult(`Error: ${error instanceof Error ? error.message : String(error)}`, true);
+      }
+    }
+  );
+}
@@ -0,0 +1,661 @@
+import { existsSync, readFileSync } from "node:fs";
+import { rename, writeFile } from "node:fs/promises";
+import { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { SessionBudget } from "./budget.js";
+import { SumbleClient } from "./client.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { budgetSummarySchema, errorResult, executeCall } from "./execution.js";
+import { markdownTable } from "./format.js";
+import { logger } from "./logger.js";
+import { EnrichOrganizationResponse, FindJobsResponse, Job } from "./models.js";
+import { canonicalDomain, canonicalTechnology } from "./normalize.js";
+import { MAX_OFFSET } from "./pagination.js";
+import { enrichOrganization, findJobs } from "./tools.js";
+
+// =============================================================================
+// WATCHLISTS
+// =============================================================================
+//
+// Named lists of target accounts whose tech stacks are re-checked on demand.
+// Each account keeps a snapshot of the technologies found at its last refresh,
+// so a refresh can report what appeared and disappeared since, along with the
+// job postings published in between. Watchlists belong to the user who made
+// them, and persist to a JSON file when one is configured (watchlists.file).
+
+const MAX_ACCOUNTS = 500;
+const DEFAULT_JOBS_PER_ACCOUNT = 10;
+const DEFAULT_CONCURRENCY = 4;
+
+interface TechnologySnapshot {
+  jobs_count: number | null;
+  people_count: number | null;
+}
+
+export interface WatchedAccount {
+  domain: string;
+  added_at: string;
+  name?: string | null;
+  // When technologies and jobs were last both checked
+  last_refreshed?: string;
+  // Technologies found at the last successful refresh
+  technologies?: Record<string, TechnologySnapshot>;
+  // Start (YYYY-MM-DD) of the next job search; stays put while postings are
+  // left unreported, so none are skipped
+  jobs_since?: string;
+  // Job ID -> day it was posted (or reported, if unknown). The job search has
+  // day granularity, so this keeps postings from the window's first day from
+  // being reported twice.
+  reported_jobs?: Record<string, string>;
+}
+
+export interface Watchlist {
+  name: string;
+  created_at: string;
+  // Technologies checked on refresh; enrich_organization's default set otherwise
+  technologies?: string[];
+  accounts: Record<string, WatchedAccount>;
+}
+
+// Owner -> watchlist name -> watchlist
+type WatchlistData = Record<string, Record<string, Watchlist>>;
+
+export class WatchlistStore {
+  private data: WatchlistData = {};
+  private writing: Promise<void> = Promise.resolve();
+
+  // Without a path, watchlists live only as long as the process
+  constructor(private path?: string) {
+    if (path && existsSync(path)) {
+      try {
+        this.data = JSON.parse(readFileSync(path, "utf8")) as WatchlistData;
+      } catch (error) {
+        throw new Error(`Could not read watchlist file ${path}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  list(owner: string): Watchlist[] {
+    return Object.values(this.data[owner] ?? {});
+  }
+
+  get(owner: string, name: string): Watchlist | undefined {
+    const lists = this.data[owner];
+    return lists && Object.hasOwn(lists, name) ? lists[name] : undefined;
+  }
+
+  create(owner: string, name: string): Watchlist {
+    const watchlist: Watchlist = { name, created_at: new Date().toISOString(), accounts: {} };
+    (this.data[owner] ??= {})[name] = watchlist;
+    return watchlist;
+  }
+
+  // Persist after a change; writes are chained so the file always ends up
+  // with the latest state
+  async save(): Promise<void> {
+    const path = this.path;
+    if (!path) return;
+    this.writing = this.writing
+      .then(async () => {
+        await writeFile(`${path}.tmp`, JSON.stringify(this.data, null, 2));
+        await rename(`${path}.tmp`, path);
+      })
+      .catch((error) => logger.error("Failed to write watchlist file", { path, error }));
+    await this.writing;
+  }
+}
+
+// =============================================================================
+// CHANGE DETECTION
+// =============================================================================
+
+const newTechnologySchema = z.object({
+  name: z.string(),
+  jobs_count: z.number().nullable(),
+  people_count: z.number().nullable(),
+});
+
+const newJobSchema = z.object({
+  id: z.number().nullable(),
+  job_title: z.string().nullable(),
+  posted: z.string().nullable(),
+  matched_technologies: z.array(z.string()),
+  url: z.string().nullable(),
+});
+
+const accountChangesSchema = z.object({
+  domain: z.string(),
+  name: z.string().nullable(),
+  // baseline: first refresh, so there is nothing to compare against yet
+  status: z.enum(["baseline", "changed", "unchanged", "error", "budget_exceeded"]),
+  // Start of the window new job postings were searched in
+  jobs_since: z.string().nullable(),
+  new_technologies: z.array(newTechnologySchema),
+  dropped_technologies: z.array(z.string()),
+  new_jobs: z.array(newJobSchema),
+  // More new postings than max_jobs_per_account; the rest come with the next refresh
+  jobs_truncated: z.boolean(),
+  // The job search reached the API's offset limit; postings past it are not reported
+  jobs_offset_limit: z.boolean(),
+  credits_spent: z.number(),
+  error: z.string().optional(),
+});
+
+type AccountChanges = z.infer<typeof accountChangesSchema>;
+
+const refreshOutputSchema = z.object({
+  watchlist: z.string(),
+  refreshed_at: z.string(),
+  accounts: z.array(accountChangesSchema),
+  summary: z.object({
+    accounts: z.number(),
+    changed: z.number(),
+    baseline: z.number(),
+    failed: z.number(),
+    new_technologies: z.number(),
+    dropped_technologies: z.number(),
+    new_jobs: z.number(),
+    credits_spent: z.number(),
+  }),
+  budget: budgetSummarySchema.optional(),
+});
+
+type RefreshOutput = z.infer<typeof refreshOutputSchema>;
+
+function snapshotOf(response: EnrichOrganizationResponse): Record<string, TechnologySnapshot> {
+  return Object.fromEntries(
+    (response.technologies ?? []).flatMap((tech) =>
+      tech.name ? [[tech.name, { jobs_count: tech.jobs_count ?? null, people_count: tech.people_count ?? null }]] : []
+    )
+  );
+}
+
+interface RefreshContext {
+  client: SumbleClient;
+  budget: SessionBudget;
+  signal?: AbortSignal;
+  watchlist: Watchlist;
+  jobsPerAccount: number;
+}
+
+// Re-check one account. Its snapshot, reported jobs and job window are only
+// updated once both checks have succeeded, so a failed or refused refresh is
+// reported again in full by the next one.
+async function refreshAccount(context: RefreshContext, account: WatchedAccount): Promise<AccountChanges> {
+  const { client, budget, watchlist } = context;
+  const options = { cache: "bypass" as const, signal: context.signal, tool: "refresh_watchlist" };
+  const jobsSince = account.jobs_since ?? (account.last_refreshed ?? account.added_at).slice(0, 10);
+  const today = new Date().toISOString().slice(0, 10);
+  const changes: AccountChanges = {
+    domain: account.domain,
+    name: account.name ?? null,
+    status: "unchanged",
+    jobs_since: context.jobsPerAccount > 0 ? jobsSince : null,
+    new_technologies: [],
+    dropped_technologies: [],
+    new_jobs: [],
+    jobs_truncated: false,
+    jobs_offset_limit: false,
+    credits_spent: 0,
+  };
+
+  try {
+    const enrichment = await executeCall(
+      enrichOrganization,
+      client,
+      budget,
+      { domain: account.domain, technologies: watchlist.technologies },
+      options
+    );
+    if (!enrichment) {
+      return { ...changes, status: "budget_exceeded", error: "Skipped: the credit budget cannot cover this account" };
+    }
+    changes.credits_spent += enrichment.spent;
+    const response = enrichment.response as EnrichOrganizationResponse;
+    const current = snapshotOf(response);
+    const previous = account.technologies;
+    changes.name = response.organization?.name ?? changes.name;
+    if (previous) {
+      changes.new_technologies = Object.entries(current)
+        .filter(([name]) => !(name in previous))
+        .map(([name, snapshot]) => ({ name, ...snapshot }));
+      changes.dropped_technologies = Object.keys(previous).filter((name) => !(name in current));
+    } else {
+      changes.status = "baseline";
+    }
+
+    const reported = { ...account.reported_jobs };
+    if (context.jobsPerAccount > 0) {
+      // Page until enough unreported postings are found, skipping ones an
+      // earlier refresh already reported
+      const postings: Job[] = [];
+      for (let offset = 0; ; offset += context.jobsPerAccount) {
+        const jobs = await executeCall(
+          findJobs,
+          client,
+          budget,
+          {
+            domain: account.domain,
+            technologies: watchlist.technologies,
+            since: jobsSince,
+            limit: context.jobsPerAccount,
+            offset,
+          },
+          options
+        );
+        if (!jobs) {
+          return {
+            ...changes,
+            status: "budget_exceeded",
+            error: "The credit budget cannot cover the job search; nothing was recorded, so the next refresh reports these changes again",
+          };
+        }
+        changes.credits_spent += jobs.spent;
+        const found = jobs.response as FindJobsResponse;
+        const page = found.jobs ?? [];
+        postings.push(...page.filter((job) => job.id == null || !Object.hasOwn(reported, String(job.id))));
+        const exhausted = page.length < context.jobsPerAccount || offset + page.length >= (found.total ?? Infinity);
+        // Postings past the offset limit can't be held over for the next refresh
+        changes.jobs_offset_limit = !exhausted && offset + context.jobsPerAccount > MAX_OFFSET;
+        if (postings.length >= context.jobsPerAccount || exhausted || changes.jobs_offset_limit) {
+          changes.jobs_truncated =
+            postings.length > context.jobsPerAccount || (!exhausted && !changes.jobs_offset_limit);
+          break;
+        }
+      }
+      changes.new_jobs = postings.slice(0, context.jobsPerAccount).map((job) => ({
+        id: job.id ?? null,
+        job_title: job.job_title ?? null,
+        posted: job.datetime_pulled?.slice(0, 10) ?? null,
+        matched_technologies: job.matched_technologies ?? [],
+        url: job.url ?? null,
+      }));
+      for (const job of changes.new_jobs) {
+        if (job.id != null) reported[String(job.id)] = job.posted ?? today;
+      }
+    }
+
+    // Both checks succeeded: record what was seen
+    account.name = changes.name;
+    account.technologies = current;
+    account.last_refreshed = new Date().toISOString();
+    if (!changes.jobs_truncated) {
+      account.jobs_since = today;
+      // Postings from before the new window can't be returned again
+      for (const [id, posted] of Object.entries(reported)) {
+        if (posted < today) delete reported[id];
+      }
+    }
+    account.reported_jobs = reported;
+    if (
+      changes.status !== "baseline" &&
+      changes.new_technologies.length + changes.dropped_technologies.length + changes.new_jobs.length > 0
+    ) {
+      changes.status = "changed";
+    }
+    return changes;
+  } catch (error) {
+    // Cancellation stops the whole refresh; any other failure is per account
+    context.signal?.throwIfAborted();
+    return { ...changes, status: "error", error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function renderRefresh(output: RefreshOutput): string {
+  const { summary } = output;
+  const lines = [
+    `Refreshed ${summary.accounts} accounts in "${output.watchlist}": ${summary.changed} changed, ${summary.new_technologies} new and ${summary.dropped_technologies} dropped technologies, ${summary.new_jobs} new jobs (${summary.credits_spent} credits spent).`,
+  ];
+
+  const changed = output.accounts.filter((account) => account.status === "changed");
+  for (const account of changed) {
+    lines.push("", `**${account.name ?? account.domain}** (${account.domain})`);
+    if (account.new_technologies.length > 0) {
+      const added = account.new_technologies.map(
+        (tech) => `${tech.name} (${tech.jobs_count ?? 0} jobs, ${tech.people_count ?? 0} people)`
+      );
+      lines.push(`- New technologies: ${added.join(", ")}`);
+    }
+    if (account.dropped_technologies.length > 0) {
+      lines.push(`- No longer detected: ${account.dropped_technologies.join(", ")}`);
+    }
+    if (account.new_jobs.length > 0) {
+      lines.push(
+        `- New jobs since ${account.jobs_since}:`,
+        "",
+        markdownTable(
+          ["Posted", "Title", "Technologies"],
+          account.new_jobs.map((job) => [job.posted, job.job_title, job.matched_technologies.join(", ")])
+        )
+      );
+    }
+    if (account.jobs_truncated) {
+      lines.push(`- More new jobs than max_jobs_per_account; the rest are reported by the next refresh`);
+    }
+    if (account.jobs_offset_limit) {
+      lines.push(`- The job search stopped at the API's limit of ${MAX_OFFSET} results; later postings are not reported`);
+    }
+  }
+
+  if (summary.baseline > 0) {
+    lines.push("", `${summary.baseline} accounts were checked for the first time; changes are reported from the next refresh.`);
+  }
+  const failed = output.accounts.filter((account) => account.status === "error" || account.status === "budget_exceeded");
+  if (failed.length > 0) {
+    lines.push("", "Not fully refreshed:");
+    for (const account of failed) lines.push(`- ${account.domain}: ${account.error}`);
+  }
+  return lines.join("\n");
+}
+
+// =============================================================================
+// WATCHLIST TOOLS
+// =============================================================================
+
+const watchlistNameArg = z
+  .string()
+  .regex(/^[\w .-]{1,64}$/, "Use up to 64 letters, digits, spaces, dots, dashes or underscores")
+  .default("default")
+  .describe("Watchlist name (default 'default')");
+
+function describeAccounts(watchlist: Watchlist) {
+  return Object.values(watchlist.accounts).map((account) => ({
+    domain: account.domain,
+    name: account.name ?? null,
+    last_refreshed: account.last_refreshed ?? null,
+    technologies: Object.keys(account.technologies ?? {}),
+  }));
+}
+
+const watchlistSummarySchema = z.object({
+  name: z.string(),
+  technologies: z.array(z.string()).nullable(),
+  accounts: z.array(
+    z.object({
+      domain: z.string(),
+      name: z.string().nullable(),
+      last_refreshed: z.string().nullable(),
+      technologies: z.array(z.string()),
+    })
+  ),
+});
+
+export function registerWatchlistTools(
+  server: McpServer,
+  store: WatchlistStore,
+  client: SumbleClient,
+  budget: SessionBudget,
+  user?: string
+): Record<string, RegisteredTool> {
+  const owner = user ?? "default";
+  const requireWatchlist = (name: string) => {
+    const watchlist = store.get(owner, name);
+    if (!watchlist) {
+      const names = store.list(owner).map((list) => list.name);
+      throw new Error(
+        `No watchlist named "${name}"${names.length ? ` (you have: ${names.join(", ")})` : ""}; create it with add_to_watchlist`
+      );
+    }
+    return watchlist;
+  };
+
+  const addToWatchlist = server.registerTool(
+    "add_to_watchlist",
+    {
+      description: `Add account domains to a saved watchlist, creating it if needed. Watchlists persist between sessions and are re-checked with refresh_watchlist.
+
+Cost: free (no Sumble API call).`,
+      inputSchema: {
+        watchlist: watchlistNameArg,
+        domains: z.array(z.string()).min(1).max(MAX_ACCOUNTS).describe("Company web domains to watch"),
+        technologies: z
+          .array(z.string())
+          .optional()
+          .describe(
+            "Technologies to track for every account in the watchlist, replacing any set before; a new set makes the next refresh take a new baseline. Without it, enrich_organization's default set is checked"
+          ),
+      },
+      outputSchema: {
+        watchlist: z.string(),
+        added: z.array(z.string()),
+        already_watched: z.array(z.string()),
+        accounts: z.number(),
+        technologies: z.array(z.string()).nullable(),
+      },
+    },
+    async ({ watchlist: name, domains, technologies }): Promise<CallToolResult> => {
+      try {
+        const watchlist = store.get(owner, name) ?? store.create(owner, name);
+        // Accounts whose snapshot was taken with a different set of technologies
+        let rebaselined = 0;
+        if (technologies?.length) {
+          const tracked = [...new Set(technologies.map(canonicalTechnology))];
+          const previous = watchlist.technologies && new Set(watchlist.technologies);
+          if (!previous || tracked.length !== previous.size || tracked.some((tech) => !previous.has(tech))) {
+            // The old snapshots would report every difference between the sets
+            // as a change, so the next refresh takes a new baseline instead
+            for (const account of Object.values(watchlist.accounts)) {
+              if (account.technologies) rebaselined++;
+              delete account.technologies;
+              delete account.last_refreshed;
+            }
+          }
+          watchlist.technologies = tracked;
+        }
+
+        const added: string[] = [];
+        const alreadyWatched: string[] = [];
+        for (const domain of new Set(domains.map(canonicalDomain))) {
+          if (Object.hasOwn(watchlist.accounts, domain)) {
+            alreadyWatched.push(domain);
+            continue;
+          }
+          if (Object.keys(watchlist.accounts).length >= MAX_ACCOUNTS) {
+            throw new Error(`A watchlist holds at most ${MAX_ACCOUNTS} accounts; "${name}" is full`);
+          }
+          watchlist.accounts[domain] = { domain, added_at: new Date().toISOString() };
+          added.push(domain);
+        }
+        await store.save();
+
+        const output = {
+          watchlist: name,
+          added,
+          already_watched: alreadyWatched,
+          accounts: Object.keys(watchlist.accounts).length,
+          technologies: watchlist.technologies ?? null,
+        };
+        const text = `Added ${added.length} accounts to "${name}" (${output.accounts} watched${
+          alreadyWatched.length ? `, ${alreadyWatched.length} already there` : ""
+        }). Run refresh_watchlist to take a baseline${
+          rebaselined ? `; the tracked technologies changed, so ${rebaselined} refreshed accounts get a new one` : ""
+        }.`;
+        return { content: [{ type: "text", text }], structuredContent: output };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  const removeFromWatchlist = server.registerTool(
+    "remove_from_watchlist",
+    {
+      description: `Stop watching account domains. Removing every account leaves an empty watchlist.
+
+Cost: free (no Sumble API call).`,
+      inputSchema: {
+        watchlist: watchlistNameArg,
+        domains: z.array(z.string()).min(1).describe("Company web domains to stop watching"),
+      },
+      outputSchema: {
+        watchlist: z.string(),
+        removed: z.array(z.string()),
+        not_found: z.array(z.string()),
+        accounts: z.number(),
+      },
+    },
+    async ({ watchlist: name, domains }): Promise<CallToolResult> => {
+      try {
+        const watchlist = requireWatchlist(name);
+        const removed: string[] = [];
+        const notFound: string[] = [];
+        for (const domain of new Set(domains.map(canonicalDomain))) {
+          if (Object.hasOwn(watchlist.accounts, domain)) {
+            delete watchlist.accounts[domain];
+            removed.push(domain);
+          } else {
+            notFound.push(domain);
+          }
+        }
+        await store.save();
+
+        const output = { watchlist: name, removed, not_found: notFound, accounts: Object.keys(watchlist.accounts).length };
+        const text = `Removed ${removed.length} accounts from "${name}" (${output.accounts} still watched)${
+          notFound.length ? `; not on the list: ${notFound.join(", ")}` : ""
+        }.`;
+        return { content: [{ type: "text", text }], structuredContent: output };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  const listWatchlists = server.registerTool(
+    "list_watchlists",
+    {
+      description: `List your watchlists with their accounts, tracked technologies and when each account was last refreshed.
+
+Cost: free (no Sumble API call).`,
+      inputSchema: {
+        watchlist: z.string().optional().describe("Only show this watchlist"),
+      },
+      outputSchema: { watchlists: z.array(watchlistSummarySchema) },
+    },
+    async ({ watchlist: name }): Promise<CallToolResult> => {
+      try {
+        const watchlists = name ? [requireWatchlist(name)] : store.list(owner);
+        const output = {
+          watchlists: watchlists.map((watchlist) => ({
+            name: watchlist.name,
+            technologies: watchlist.technologies ?? null,
+            accounts: describeAccounts(watchlist),
+          })),
+        };
+        const text =
+          output.watchlists.length === 0
+            ? "You have no watchlists yet; create one with add_to_watchlist."
+            : output.watchlists
+                .map((watchlist) =>
+                  [
+                    `**${watchlist.name}**: ${watchlist.accounts.length} accounts${
+                      watchlist.technologies ? `, tracking ${watchlist.technologies.join(", ")}` : ""
+                    }`,
+                    "",
+                    markdownTable(
+                      ["Domain", "Name", "Last refreshed", "Technologies"],
+                      watchlist.accounts.map((account) => [
+                        account.domain,
+                        account.name,
+                        account.last_refreshed?.slice(0, 10),
+                        account.technologies.length,
+                      ])
+                    ),
+                  ].join("\n")
+                )
+                .join("\n\n");
+        return { content: [{ type: "text", text }], structuredContent: output };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  const refreshWatchlist = server.registerTool(
+    "refresh_watchlist",
+    {
+      description: `Re-check every account in a watchlist and report what changed since the last refresh: newly detected technologies, technologies no longer detected, and job postings published since. The first refresh of an account records a baseline. Always calls the API rather than the response cache.
+
+Cost: per account, one enrich_organization call (5 credits per technology found) plus one find_jobs call (3 credits per job, up to max_jobs_per_account; further pages only when postings a refresh earlier today already reported fill the first).
+
+Use this to:
+- Spot target accounts adopting or dropping a technology
+- Catch new hiring activity at watched accounts`,
+      inputSchema: {
+        watchlist: watchlistNameArg,
+        domains: z
+          .array(z.string())
+          .optional()
+          .describe("Only refresh these accounts from the watchlist"),
+        max_jobs_per_account: z
+          .number()
+          .int()
+          .min(0)
+          .max(100)
+          .default(DEFAULT_JOBS_PER_ACCOUNT)
+          .describe("New job postings to fetch per account (0-100; 0 skips the job search)"),
+        concurrency: z
+          .number()
+          .int()
+          .min(1)
+          .max(10)
+          .default(DEFAULT_CONCURRENCY)
+          .describe("How many accounts to refresh at once (1-10)"),
+      },
+      outputSchema: refreshOutputSchema,
+    },
+    async ({ watchlist: name, domains, max_jobs_per_account, concurrency }, extra): Promise<CallToolResult> => {
+      try {
+        const watchlist = requireWatchlist(name);
+        let accounts = Object.values(watchlist.accounts);
+        if (domains?.length) {
+          const wanted = new Set(domains.map(canonicalDomain));
+          const missing = [...wanted].filter((domain) => !Object.hasOwn(watchlist.accounts, domain));
+          if (missing.length > 0) throw new Error(`Not on the "${name}" watchlist: ${missing.join(", ")}`);
+          accounts = accounts.filter((account) => wanted.has(account.domain));
+        }
+        if (accounts.length === 0) throw new Error(`The "${name}" watchlist has no accounts; add some with add_to_watchlist`);
+
+        const context: RefreshContext = {
+          client,
+          budget,
+          signal: extra.signal,
+          watchlist,
+          jobsPerAccount: max_jobs_per_account,
+        };
+        const results = await mapWithConcurrency(accounts, concurrency, (account) => refreshAccount(context, account));
+        await store.save();
+
+        const count = (fn: (account: AccountChanges) => number) =>
+          results.reduce((sum, account) => sum + fn(account), 0);
+        const output: RefreshOutput = {
+          watchlist: name,
+          refreshed_at: new Date().toISOString(),
+          accounts: results,
+          summary: {
+            accounts: results.length,
+            changed: results.filter((account) => account.status === "changed").length,
+            baseline: results.filter((account) => account.status === "baseline").length,
+            failed: results.filter((account) => account.status === "error" || account.status === "budget_exceeded")
+              .length,
+            new_technologies: count((account) => account.new_technologies.length),
+            dropped_technologies: count((account) => account.dropped_technologies.length),
+            new_jobs: count((account) => account.new_jobs.length),
+            credits_spent: count((account) => account.credits_spent),
+          },
+          ...(budget.limited && { budget: budget.summary() }),
+        };
+        return { content: [{ type: "text", text: renderRefresh(output) }], structuredContent: output };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  return {
+    add_to_watchlist: addToWatchlist,
+    remove_from_watchlist: removeFromWatchlist,
+    list_watchlists: listWatchlists,
+    refresh_watchlist: refreshWatchlist,
+  };
+}
@@ -0,0 +1,221 @@
+import { z } from "zod";
+import { mapWithConcurrency } from "../concurrency.js";
+import { budgetSummarySchema, executeCall } from "../execution.js";
+import { markdownTable } from "../format.js";
+import { EnrichOrganizationResponse } from "../models.js";
+import { enrichOrganization, sinceArg } from "../tools.js";
+import { defineWorkflow } from "./workflow.js";
+
+// =============================================================================
+// BATCH ENRICHMENT
+// =============================================================================
+
+const MAX_BATCH_SIZE = 100;
+const DEFAULT_CONCURRENCY = 4;
+
+const batchItemSchema = z.object({
+  organization: z.string(),
+  status: z.enum(["ok", "error", "budget_exceeded"]),
+  credits_spent: z.number(),
+  cache: z.enum(["hit", "stale", "miss"]).optional(),
+  technologies: z.array(z.string()).optional(),
+  error: z.string().optional(),
+});
+
+type BatchItem = z.infer<typeof batchItemSchema>;
+
+const batchOutputSchema = z.object({
+  items: z.array(batchItemSchema),
+  // Technologies found across the batch, in first-seen order
+  technologies: z.array(z.string()),
+  // organization -> technology -> jobs mentioning it (null when not reported)
+  matrix: z.record(z.record(z.number().nullable())),
+  summary: z.object({
+    succeeded: z.number(),
+    failed: z.number(),
+    budget_exceeded: z.number(),
+    credits_spent: z.number(),
+  }),
+  budget: budgetSummarySchema.optional(),
+});
+
+type BatchOutput = z.infer<typeof batchOutputSchema>;
+
+interface BatchTarget {
+  label: string;
+  identifier: { domain?: string; organization_id?: number; slug?: string };
+}
+
+function batchTargets(args: {
+  domains?: string[];
+  organization_ids?: number[];
+  slugs?: string[];
+}): BatchTarget[] {
+  const targets: BatchTarget[] = [
+    ...(args.domains ?? []).map((domain) => ({ label: domain, identifier: { domain } })),
+    ...(args.organization_ids ?? []).map((id) => ({
+      label: `id:${id}`,
+      identifier: { organization_id: id },
+    })),
+    ...(args.slugs ?? []).map((slug) => ({ label: slug, identifier: { slug } })),
+  ];
+
+  // The same organization listed twice is only enriched (and billed) once
+  const unique = new Map(targets.map((target) => [target.label, target]));
+  if (unique.size === 0) throw new Error("Provide at least one of domains, organization_ids or slugs");
+  if (unique.size > MAX_BATCH_SIZE) {
+    throw new Error(`At most ${MAX_BATCH_SIZE} organizations per batch, got ${unique.size}`);
+  }
+  return [...unique.values()];
+}
+
+function renderBatch(output: BatchOutput): string {
+  const { summary } = output;
+  const lines = [
+    `Enriched ${summary.succeeded} of ${output.items.length} organizations (${summary.credits_spent} credits spent).`,
+  ];
+
+  const succeeded = output.items.filter((item) => item.status === "ok");
+  if (succeeded.length > 0 && output.technologies.length > 0) {
+    lines.push(
+      "",
+      markdownTable(
+        ["Organization", ...output.technologies],
+        succeeded.map((item) => [
+          item.organization,
+          ...output.technologies.map((tech) => {
+            if (!(tech in output.matrix[item.organization])) return undefined;
+            return output.matrix[item.organization][tech] ?? "yes";
+          }),
+        ])
+      ),
+      "",
+      "_Cells show the number of job posts mentioning each technology._"
+    );
+  }
+
+  const failed = output.items.filter((item) => item.status !== "ok");
+  if (failed.length > 0) {
+    lines.push("", "Not enriched:");
+    for (const item of failed) {
+      lines.push(`- ${item.organization}: ${item.error}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+export const enrichOrganizationsBatch = defineWorkflow({
+  name: "enrich_organizations_batch",
+  description:
+    "Enrich a list of organizations with technology data in one call, identified by domains, Sumble IDs and/or slugs. Runs the enrichments in parallel and returns an organization x technology matrix plus per-organization status.",
+  usage: [
+    "Enrich a list of target account domains",
+    "Compare the tech stacks of several companies side by side",
+    "Check which accounts in a list use a given technology",
+  ],
+  cost: "the same as one enrich_organization call per organization (5 credits per technology found).",
+  inputSchema: {
+    domains: z.array(z.string()).optional().describe("Company web domains (e.g., ['stripe.com', 'shopify.com'])"),
+    organization_ids: z.array(z.number().int()).optional().describe("Sumble organization IDs"),
+    slugs: z.array(z.string()).optional().describe("Sumble organization slugs"),
+    technologies: z.array(z.string()).optional().describe("Specific technologies to search for"),
+    technology_categories: z
+      .array(z.string())
+      .optional()
+      .describe("Technology categories to search for"),
+    query: z.string().optional().describe("Free-text query for technology search"),
+    since: sinceArg,
+    concurrency: z
+      .number()
+      .int()
+      .min(1)
+      .max(10)
+      .default(DEFAULT_CONCURRENCY)
+      .describe("How many organizations to enrich at once (1-10)"),
+  },
+  outputSchema: batchOutputSchema,
+  run: async ({ client, budget, options }, args) => {
+    const targets = batchTargets(args);
+    const filters = {
+      technologies: args.technologies,
+      technology_categories: args.technology_categories,
+      query: args.query,
+      since: args.since,
+    };
+
+    const results = await mapWithConcurrency(
+      targets,
+      args.concurrency,
+      async (target): Promise<[BatchItem, EnrichOrganizationResponse?]> => {
+        try {
+          const outcome = await executeCall(
+            enrichOrganization,
+            client,
+            budget,
+            { ...target.identifier, ...filters },
+            options
+          );
+          if (!outcome) {
+            return [
+              {
+                organization: target.label,
+                status: "budget_exceeded",
+                credits_spent: 0,
+                error: "Skipped: the credit budget cannot cover this enrichment",
+              },
+            ];
+          }
+          const response = outcome.response as EnrichOrganizationResponse;
+          return [
+            {
+              organization: target.label,
+              status: "ok",
+              credits_spent: outcome.spent,
+              cache: outcome.cache,
+              technologies: (response.technologies ?? []).flatMap((tech) => tech.name ?? []),
+            },
+            response,
+          ];
+        } catch (error) {
+          // Cancellation stops the whole batch; any other failure is per item
+          options.signal?.throwIfAborted();
+          return [
+            {
+              organization: target.label,
+              status: "error",
+              credits_spent: 0,
+              error: error instanceof Error ? error.message : String(error),
+            },
+          ];
+        }
+      }
+    );
+
+    const technologies: string[] = [];
+    const matrix: BatchOutput["matrix"] = {};
+    for (const [item, response] of results) {
+      if (!response) continue;
+      matrix[item.organization] = {};
+      for (const tech of response.technologies ?? []) {
+        if (!tech.name) continue;
+        if (!technologies.includes(tech.name)) technologies.push(tech.name);
+        matrix[item.organization][tech.name] = tech.jobs_count ?? null;
+      }
+    }
+
+    const items = results.map(([item]) => item);
+    const output: BatchOutput = {
+      items,
+      technologies,
+      matrix,
+      summary: {
+        succeeded: items.filter((item) => item.status === "ok").length,
+        failed: items.filter((item) => item.status === "error").length,
+        budget_exceeded: items.filter((item) => item.status === "budget_exceeded").length,
+        credits_spent: items.reduce((sum, item) => sum + item.credits_spent, 0),
+      },
+      ...(budget.limited && { budget: budget.summary() }),
+    };
+    return { text: renderBatch(output), structured: output };
+  },
+});
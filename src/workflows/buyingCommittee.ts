@@ -0,0 +1,358 @@
+import { z } from "zod";
+import { mapWithConcurrency } from "../concurrency.js";
+import { budgetSummarySchema, executeCall } from "../execution.js";
+import { markdownTable } from "../format.js";
+import { EnrichOrganizationResponse, FindPeopleResponse, Person, Technology } from "../models.js";
+import { canonicalTechnology } from "../normalize.js";
+import {
+  countriesArg,
+  DEFAULT_ENRICH_TECHNOLOGIES,
+  enrichOrganization,
+  findPeople,
+  organizationArgs,
+} from "../tools.js";
+import { defineWorkflow } from "./workflow.js";
+
+// =============================================================================
+// BUYING COMMITTEE
+// =============================================================================
+
+const DEFAULT_PEOPLE_PER_SEARCH = 25;
+const DEFAULT_PER_ROLE = 5;
+
+interface ProductArea {
+  // Technologies enriched to judge how much the organization uses the area
+  technologies: string[];
+  // Job functions whose people build or use it
+  jobFunctions: string[];
+}
+
+// Product areas we sell into most, keyed by the words an agent is likely to use
+const PRODUCT_AREAS: Record<string, ProductArea> = {
+  data: {
+    technologies: ["snowflake", "databricks", "dbt", "airflow", "kafka", "spark", "bigquery", "redshift"],
+    jobFunctions: ["Data", "Engineer", "Analyst", "Data Scientist"],
+  },
+  cloud: {
+    technologies: ["aws", "azure", "gcp", "kubernetes", "terraform", "docker"],
+    jobFunctions: ["Engineer", "IT"],
+  },
+  security: {
+    technologies: ["okta", "crowdstrike", "splunk", "palo alto networks", "wiz", "snyk"],
+    jobFunctions: ["Security", "Engineer", "IT"],
+  },
+  observability: {
+    technologies: ["datadog", "splunk", "prometheus", "grafana", "new relic", "elasticsearch"],
+    jobFunctions: ["Engineer", "IT"],
+  },
+  "machine learning": {
+    technologies: ["pytorch", "tensorflow", "scikit-learn", "mlflow", "sagemaker", "databricks"],
+    jobFunctions: ["Data Scientist", "Engineer", "Data"],
+  },
+  frontend: {
+    technologies: ["react", "typescript", "next.js", "vue", "angular"],
+    jobFunctions: ["Engineer", "Designer"],
+  },
+};
+
+// Words in a product area too generic to mark a job title as relevant
+const GENERIC_WORDS = new Set(["and", "for", "of", "the", "platform", "platforms", "tools", "tooling", "software"]);
+
+const ROLES = ["economic_buyer", "technical_champion", "end_user"] as const;
+
+type Role = (typeof ROLES)[number];
+
+const ROLE_LABELS: Record<Role, string> = {
+  economic_buyer: "Economic buyers",
+  technical_champion: "Technical champions",
+  end_user: "End users",
+};
+
+// The searches run per committee: leadership in any function, then managers
+// and individual contributors in the area's functions
+function committeeSearches(jobFunctions: string[]): { job_levels?: string[]; job_functions?: string[] }[] {
+  return [
+    { job_levels: ["Executive", "VP"] },
+    { job_levels: ["Director", "Manager"], job_functions: jobFunctions },
+    { job_functions: jobFunctions },
+  ];
+}
+
+const memberSchema = z.object({
+  rank: z.number(),
+  id: z.number().nullable(),
+  name: z.string().nullable(),
+  job_title: z.string().nullable(),
+  job_function: z.string().nullable(),
+  job_level: z.string().nullable(),
+  // 0 (individual contributor) to 4 (executive)
+  seniority: z.number(),
+  // How closely the person's role matches the product area (0-1)
+  relevance: z.number(),
+  // Technologies and product-area words found in the job title
+  matched_terms: z.array(z.string()),
+  score: z.number(),
+  linkedin_url: z.string().nullable(),
+  url: z.string().nullable(),
+});
+
+const committeeOutputSchema = z.object({
+  organization: z.object({
+    id: z.number().nullable(),
+    name: z.string().nullable(),
+    domain: z.string().nullable(),
+  }),
+  product_area: z.string(),
+  // Area technologies the organization uses, most active first
+  technologies: z.array(
+    z.object({
+      name: z.string(),
+      jobs_count: z.number().nullable(),
+      people_count: z.number().nullable(),
+    })
+  ),
+  committee: z.object({
+    economic_buyer: z.array(memberSchema),
+    technical_champion: z.array(memberSchema),
+    end_user: z.array(memberSchema),
+  }),
+  people_found: z.number(),
+  // People searches the credit budget could not cover
+  skipped_searches: z.number(),
+  credits_spent: z.number(),
+  budget: budgetSummarySchema.optional(),
+});
+
+type CommitteeOutput = z.infer<typeof committeeOutputSchema>;
+
+// The table entry whose key the product area names last, as whole words: the
+// last is the one the others qualify ("cloud security" -> security, "data
+// infrastructure" -> data, "metadata platform" -> none)
+function productAreaFor(productArea: string): ProductArea | undefined {
+  const area = productArea.toLowerCase();
+  let best: { key: string; end: number } | undefined;
+  for (const key of Object.keys(PRODUCT_AREAS)) {
+    for (const match of area.matchAll(mentionPattern(key, "g"))) {
+      const end = match.index + match[0].length;
+      if (!best || end > best.end) best = { key, end };
+    }
+  }
+  return best ? PRODUCT_AREAS[best.key] : undefined;
+}
+
+function seniorityOf(person: Person): number {
+  const level = (person.job_level ?? "").toLowerCase();
+  const title = (person.job_title ?? "").toLowerCase();
+  if (/executive|c-level|\bvp\b|vice president/.test(level) || /\bchief\b|\bc[a-z]o\b|\bvp\b|vice president/.test(title)) {
+    return 4;
+  }
+  if (/director|head/.test(level) || /\bdirector\b|\bhead of\b/.test(title)) return 3;
+  if (/manager|lead/.test(level) || /\bmanager\b|\blead\b/.test(title)) return 2;
+  if (/senior|principal|staff/.test(level) || /\bsenior\b|\bprincipal\b|\bstaff\b/.test(title)) return 1;
+  return 0;
+}
+
+function roleFor(seniority: number): Role {
+  if (seniority >= 4) return "economic_buyer";
+  if (seniority >= 2) return "technical_champion";
+  return "end_user";
+}
+
+// Matches the term as whole words; the match ends where the term does
+function mentionPattern(term: string, flags = ""): RegExp {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z0-9])${escaped}(?![a-z0-9])`, flags);
+}
+
+function mentions(title: string, term: string): boolean {
+  return mentionPattern(term).test(title);
+}
+
+// Half the relevance comes from working in one of the area's functions, half
+// from a job title naming one of its technologies or words
+function relevanceOf(person: Person, terms: string[], jobFunctions: string[]): { relevance: number; matched: string[] } {
+  const title = (person.job_title ?? "").toLowerCase();
+  const matched = terms.filter((term) => mentions(title, term));
+  const inFunction = jobFunctions.some((fn) => fn.toLowerCase() === person.job_function?.toLowerCase());
+  return { relevance: (inFunction ? 0.5 : 0) + (matched.length > 0 ? 0.5 : 0), matched };
+}
+
+function activity(tech: Technology): number {
+  return (tech.jobs_count ?? 0) + (tech.people_count ?? 0);
+}
+
+function renderCommittee(output: CommitteeOutput): string {
+  const organization = output.organization.name ?? output.organization.domain ?? output.organization.id;
+  const technologies = output.technologies.map((tech) => tech.name).join(", ");
+  const lines = [
+    `Buying committee for ${output.product_area} at **${organization}** (${output.people_found} people considered).`,
+    "",
+    technologies ? `Area technologies in use: ${technologies}.` : "None of the area's technologies were found in use.",
+  ];
+  for (const role of ROLES) {
+    const members = output.committee[role];
+    lines.push("", `**${ROLE_LABELS[role]}**`, "");
+    if (members.length === 0) {
+      lines.push("No one found.");
+      continue;
+    }
+    lines.push(
+      markdownTable(
+        ["Rank", "Name", "Title", "Level", "Relevant terms", "Score"],
+        members.map((member) => [
+          member.rank,
+          member.name,
+          member.job_title,
+          member.job_level,
+          member.matched_terms.join(", "),
+          member.score.toFixed(2),
+        ])
+      )
+    );
+  }
+  if (output.skipped_searches > 0) {
+    lines.push("", `${output.skipped_searches} people searches were skipped: the credit budget could not cover them.`);
+  }
+  lines.push("", `_${output.credits_spent} credits spent_`);
+  return lines.join("\n");
+}
+
+export const buildBuyingCommittee = defineWorkflow({
+  name: "build_buying_committee",
+  description:
+    "Map the buying committee for a product area at an organization. Enriches the organization for the area's technologies, searches people across several job level and function combinations, removes duplicates, and groups them into economic buyers (executives), technical champions (directors and managers) and end users (individual contributors), each ranked by seniority and relevance to the area.",
+  usage: [
+    "Find who signs off on, champions and uses a data infrastructure purchase",
+    "Plan a multi-threaded outreach to a target account",
+    "Check whether an account has people working in your product area",
+  ],
+  cost:
+    "one enrich_organization call (5 credits per technology found), plus three find_people calls (1 credit per person, up to people_per_search each).",
+  inputSchema: {
+    ...organizationArgs,
+    product_area: z
+      .string()
+      .min(1)
+      .describe(
+        "What you sell, in a few words (e.g., 'data infrastructure', 'cloud security'). Data, cloud, security, observability, machine learning and frontend have built-in technologies and job functions"
+      ),
+    technologies: z
+      .array(z.string())
+      .optional()
+      .describe("Technologies that define the product area, replacing the built-in set"),
+    job_functions: z
+      .array(z.string())
+      .optional()
+      .describe("Job functions of the people who build or use the product area (e.g., ['Data', 'Engineer'])"),
+    countries: countriesArg,
+    people_per_search: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .default(DEFAULT_PEOPLE_PER_SEARCH)
+      .describe("How many people each of the three searches returns (1-100)"),
+    per_role: z
+      .number()
+      .int()
+      .min(1)
+      .max(25)
+      .default(DEFAULT_PER_ROLE)
+      .describe("How many people to list per role (1-25)"),
+  },
+  outputSchema: committeeOutputSchema,
+  run: async ({ client, budget, options }, args) => {
+    const area = productAreaFor(args.product_area);
+    const areaTechnologies = args.technologies?.length
+      ? args.technologies
+      : area?.technologies ?? DEFAULT_ENRICH_TECHNOLOGIES;
+    const jobFunctions = args.job_functions?.length ? args.job_functions : area?.jobFunctions ?? ["Engineer"];
+    const organization = { domain: args.domain, organization_id: args.organization_id, slug: args.slug };
+
+    const enrichment = await executeCall(
+      enrichOrganization,
+      client,
+      budget,
+      { ...organization, technologies: areaTechnologies },
+      options
+    );
+    if (!enrichment) throw new Error("The credit budget cannot cover enriching the organization");
+    const enriched = enrichment.response as EnrichOrganizationResponse;
+    const technologies = (enriched.technologies ?? [])
+      .filter((tech): tech is Technology & { name: string } => !!tech.name && activity(tech) > 0)
+      .sort((a, b) => activity(b) - activity(a));
+
+    const searches = await mapWithConcurrency(committeeSearches(jobFunctions), 3, (filters) =>
+      executeCall(
+        findPeople,
+        client,
+        budget,
+        { ...organization, ...filters, countries: args.countries, limit: args.people_per_search, offset: 0 },
+        options
+      )
+    );
+
+    // The same person often turns up in more than one search
+    const people = new Map<string, Person>();
+    for (const search of searches) {
+      for (const person of (search?.response as FindPeopleResponse | undefined)?.people ?? []) {
+        const key = person.id != null ? `id:${person.id}` : `${person.name}|${person.job_title}`;
+        if (!people.has(key)) people.set(key, person);
+      }
+    }
+
+    const areaWords = args.product_area
+      .toLowerCase()
+      .split(/[^a-z0-9.+#-]+/)
+      .filter((word) => word.length > 1 && !GENERIC_WORDS.has(word));
+    const terms = [
+      ...new Set([...technologies.map((tech) => tech.name.toLowerCase()), ...areaWords.map(canonicalTechnology)]),
+    ];
+
+    const committee: CommitteeOutput["committee"] = { economic_buyer: [], technical_champion: [], end_user: [] };
+    for (const person of people.values()) {
+      const seniority = seniorityOf(person);
+      const { relevance, matched } = relevanceOf(person, terms, jobFunctions);
+      committee[roleFor(seniority)].push({
+        rank: 0,
+        id: person.id ?? null,
+        name: person.name ?? null,
+        job_title: person.job_title ?? null,
+        job_function: person.job_function ?? null,
+        job_level: person.job_level ?? null,
+        seniority,
+        relevance,
+        matched_terms: matched,
+        score: Math.round((0.5 * (seniority / 4) + 0.5 * relevance) * 1000) / 1000,
+        linkedin_url: person.linkedin_url ?? null,
+        url: person.url ?? null,
+      });
+    }
+    for (const role of ROLES) {
+      committee[role] = committee[role]
+        .sort((a, b) => b.score - a.score || b.seniority - a.seniority)
+        .slice(0, args.per_role)
+        .map((member, index) => ({ ...member, rank: index + 1 }));
+    }
+
+    const output: CommitteeOutput = {
+      organization: {
+        id: enriched.organization?.id ?? null,
+        name: enriched.organization?.name ?? null,
+        domain: enriched.organization?.domain ?? args.domain ?? null,
+      },
+      product_area: args.product_area,
+      technologies: technologies.map((tech) => ({
+        name: tech.name,
+        jobs_count: tech.jobs_count ?? null,
+        people_count: tech.people_count ?? null,
+      })),
+      committee,
+      people_found: people.size,
+      skipped_searches: searches.filter((search) => !search).length,
+      credits_spent: enrichment.spent + searches.reduce((sum, search) => sum + (search?.spent ?? 0), 0),
+      ...(budget.limited && { budget: budget.summary() }),
+    };
+    return { text: renderCommittee(output), structured: output };
+  },
+});
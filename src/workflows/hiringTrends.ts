@@ -0,0 +1,282 @@
+import { z } from "zod";
+import { mapWithConcurrency } from "../concurrency.js";
+import { budgetSummarySchema, executeCall } from "../execution.js";
+import { markdownTable } from "../format.js";
+import { FindJobsResponse, Job } from "../models.js";
+import { ResultAccumulator } from "../pagination.js";
+import { countriesArg, findJobs, organizationArgs } from "../tools.js";
+import { defineWorkflow } from "./workflow.js";
+
+// =============================================================================
+// HIRING TRENDS
+// =============================================================================
+//
+// Monthly job counts come from the `total` of one-result find_jobs calls with
+// `since` stepped back a month at a time: the count for a month is the
+// difference between consecutive cumulative totals. Country and technology
+// breakdowns come from a sample of the window's postings.
+
+const DEFAULT_MONTHS = 6;
+const DEFAULT_SAMPLE_SIZE = 100;
+const COUNT_CONCURRENCY = 4;
+
+const monthSchema = z.object({
+  month: z.string(),
+  jobs: z.number(),
+  // Change from the previous month, as a fraction (null without a baseline)
+  change: z.number().nullable(),
+});
+
+const breakdownSchema = z.object({
+  name: z.string(),
+  jobs: z.number(),
+  first_seen: z.string().nullable(),
+  last_seen: z.string().nullable(),
+});
+
+type Breakdown = z.infer<typeof breakdownSchema>;
+
+const trendsOutputSchema = z.object({
+  window: z.object({ since: z.string(), months: z.number() }),
+  // Where monthly counts came from: API totals, or the sample when the API
+  // did not report totals
+  counts_from: z.enum(["totals", "sample"]),
+  total_jobs: z.number(),
+  monthly: z.array(monthSchema),
+  growth: z.object({
+    recent_jobs: z.number(),
+    prior_jobs: z.number(),
+    // Last half of the window vs the half before it, as a fraction. The
+    // current month is still in progress, so recent growth reads low early on.
+    rate: z.number().nullable(),
+  }),
+  sample_size: z.number(),
+  by_country: z.array(breakdownSchema),
+  by_technology: z.array(breakdownSchema),
+  credits_spent: z.number(),
+  incomplete: z.string().optional(),
+  budget: budgetSummarySchema.optional(),
+});
+
+type TrendsOutput = z.infer<typeof trendsOutputSchema>;
+
+// First day of each of the last `count` calendar months (UTC), oldest first;
+// the last one is the current month
+function monthStarts(count: number, now = new Date()): string[] {
+  return Array.from({ length: count }, (_, index) => {
+    const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (count - 1 - index), 1));
+    return date.toISOString().slice(0, 10);
+  });
+}
+
+function growthRate(current: number, previous: number): number | null {
+  return previous > 0 ? Math.round(((current - previous) / previous) * 1000) / 1000 : null;
+}
+
+function monthlySeries(months: string[], counts: number[]): TrendsOutput["monthly"] {
+  return months.map((start, index) => ({
+    month: start.slice(0, 7),
+    jobs: counts[index],
+    change: index > 0 ? growthRate(counts[index], counts[index - 1]) : null,
+  }));
+}
+
+// Tally jobs under each name `keys` yields, tracking first and last posting dates
+function breakdown(jobs: Job[], keys: (job: Job) => string[]): Breakdown[] {
+  const tallies = new Map<string, Breakdown>();
+  for (const job of jobs) {
+    const posted = job.datetime_pulled?.slice(0, 10) ?? null;
+    for (const name of new Set(keys(job))) {
+      const tally = tallies.get(name) ?? { name, jobs: 0, first_seen: null, last_seen: null };
+      tally.jobs++;
+      if (posted && (!tally.first_seen || posted < tally.first_seen)) tally.first_seen = posted;
+      if (posted && (!tally.last_seen || posted > tally.last_seen)) tally.last_seen = posted;
+      tallies.set(name, tally);
+    }
+  }
+  return [...tallies.values()].sort((a, b) => b.jobs - a.jobs);
+}
+
+function renderTrends(output: TrendsOutput, subject: string): string {
+  const { growth } = output;
+  const rate =
+    growth.rate === null ? "n/a" : `${growth.rate >= 0 ? "+" : ""}${Math.round(growth.rate * 100)}%`;
+  const half = Math.floor(output.window.months / 2);
+  const lines = [
+    `Hiring trends for ${subject} since ${output.window.since}: ${output.total_jobs} jobs, ${rate} growth (last ${half} months vs the ${half} before).`,
+    "",
+    markdownTable(
+      ["Month", "Jobs", "Change"],
+      output.monthly.map((month) => [
+        month.month,
+        month.jobs,
+        month.change === null ? undefined : `${Math.round(month.change * 100)}%`,
+      ])
+    ),
+  ];
+
+  const top = (rows: Breakdown[]) =>
+    rows.slice(0, 10).map((row) => [row.name, row.jobs, row.first_seen, row.last_seen]);
+  if (output.by_technology.length > 0) {
+    lines.push(
+      "",
+      `Technologies in ${output.sample_size} sampled jobs:`,
+      "",
+      markdownTable(["Technology", "Jobs", "First seen", "Last seen"], top(output.by_technology))
+    );
+  }
+  if (output.by_country.length > 0) {
+    lines.push(
+      "",
+      `Countries in ${output.sample_size} sampled jobs:`,
+      "",
+      markdownTable(["Country", "Jobs", "First seen", "Last seen"], top(output.by_country))
+    );
+  }
+  if (output.incomplete) lines.push("", `_Incomplete: ${output.incomplete}_`);
+  lines.push("", `_${output.credits_spent} credits spent_`);
+  return lines.join("\n");
+}
+
+export const analyzeHiringTrends = defineWorkflow({
+  name: "analyze_hiring_trends",
+  description:
+    "Summarise hiring activity for an organization and/or technology over recent months: monthly job counts with month-over-month change, growth of the recent half of the window vs the prior half, and breakdowns by technology and country with first/last-seen dates. Returns a compact signal instead of raw job postings.",
+  usage: [
+    "Check whether a company is ramping up hiring for a technology",
+    "Compare hiring momentum for a technology across months",
+    "See which countries and technologies a company is hiring for",
+  ],
+  cost:
+    "3 credits per month in the window for the monthly counts, plus 3 credits per sampled job (sample_size, default 100).",
+  inputSchema: {
+    ...organizationArgs,
+    technologies: z.array(z.string()).optional().describe("Technologies the jobs must mention"),
+    technology_categories: z
+      .array(z.string())
+      .optional()
+      .describe("Technology categories the jobs must mention"),
+    countries: countriesArg,
+    months: z
+      .number()
+      .int()
+      .min(2)
+      .max(24)
+      .default(DEFAULT_MONTHS)
+      .describe("How many calendar months to analyse, including the current one (2-24)"),
+    sample_size: z
+      .number()
+      .int()
+      .min(0)
+      .max(500)
+      .default(DEFAULT_SAMPLE_SIZE)
+      .describe("How many of the window's jobs to sample for the technology and country breakdowns (0-500)"),
+  },
+  outputSchema: trendsOutputSchema,
+  run: async ({ client, budget, options }, args) => {
+    const scoped = args.domain !== undefined || args.organization_id !== undefined || args.slug !== undefined;
+    if (!scoped && !args.technologies?.length && !args.technology_categories?.length) {
+      throw new Error(
+        "Provide an organization (domain, organization_id or slug) and/or technologies or technology_categories"
+      );
+    }
+
+    const months = monthStarts(args.months);
+    const search = {
+      domain: args.domain,
+      organization_id: args.organization_id,
+      slug: args.slug,
+      technologies: args.technologies,
+      technology_categories: args.technology_categories,
+      countries: args.countries,
+    };
+    let spent = 0;
+    let countsRefused = false;
+    let incomplete: string | undefined;
+
+    // Cumulative totals since the start of each month
+    const totals = await mapWithConcurrency(months, COUNT_CONCURRENCY, async (since) => {
+      const outcome = await executeCall(
+        findJobs,
+        client,
+        budget,
+        { ...search, since, limit: 1, offset: 0 },
+        options
+      );
+      if (!outcome) {
+        countsRefused = true;
+        return undefined;
+      }
+      spent += outcome.spent;
+      const total = (outcome.response as FindJobsResponse).total;
+      return typeof total === "number" ? total : undefined;
+    });
+
+    // A sample of the window's postings for the breakdowns. Postings can
+    // shift between pages as new ones arrive, so repeats are dropped.
+    const accumulator = new ResultAccumulator<Job>();
+    let offset = 0;
+    while (accumulator.items.length < args.sample_size) {
+      const limit = Math.min(findJobs.pagination!.maxPageSize, args.sample_size - accumulator.items.length);
+      const outcome = await executeCall(
+        findJobs,
+        client,
+        budget,
+        { ...search, since: months[0], limit, offset },
+        options
+      );
+      if (!outcome) {
+        incomplete = `the credit budget stopped the job sample at ${accumulator.items.length} of ${args.sample_size}`;
+        break;
+      }
+      spent += outcome.spent;
+      const page = (outcome.response as FindJobsResponse).jobs ?? [];
+      accumulator.add(page);
+      offset += page.length;
+      if (page.length < (outcome.args.limit as number)) break;
+    }
+    const sample = accumulator.items;
+
+    let countsFrom: TrendsOutput["counts_from"] = "totals";
+    let counts: number[];
+    if (totals.every((total): total is number => total !== undefined)) {
+      counts = totals.map((total, index) => Math.max(0, total - (totals[index + 1] ?? 0)));
+    } else {
+      // Without totals, bucket the sample by posting month instead
+      countsFrom = "sample";
+      counts = months.map(
+        (start) => sample.filter((job) => job.datetime_pulled?.slice(0, 7) === start.slice(0, 7)).length
+      );
+      incomplete ??= countsRefused
+        ? "the credit budget did not cover every monthly count, so counts are from the job sample"
+        : "the API did not report totals for every month, so counts are from the job sample";
+    }
+
+    const half = Math.floor(months.length / 2);
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+    const recent = sum(counts.slice(months.length - half));
+    const prior = sum(counts.slice(months.length - 2 * half, months.length - half));
+
+    const output: TrendsOutput = {
+      window: { since: months[0], months: months.length },
+      counts_from: countsFrom,
+      total_jobs: countsFrom === "totals" ? totals[0]! : sample.length,
+      monthly: monthlySeries(months, counts),
+      growth: { recent_jobs: recent, prior_jobs: prior, rate: growthRate(recent, prior) },
+      sample_size: sample.length,
+      by_country: breakdown(sample, (job) => (job.country ? [job.country] : [])),
+      by_technology: breakdown(sample, (job) => job.matched_technologies ?? []),
+      credits_spent: spent,
+      ...(incomplete && { incomplete }),
+      ...(budget.limited && { budget: budget.summary() }),
+    };
+
+    const subject = [
+      args.domain ?? args.slug ?? (args.organization_id && `organization ${args.organization_id}`),
+      [...(args.technologies ?? []), ...(args.technology_categories ?? [])].join(", "),
+    ]
+      .filter(Boolean)
+      .join(" / ");
+    return { text: renderTrends(output, subject), structured: output };
+  },
+});
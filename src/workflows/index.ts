@@ -0,0 +1,12 @@
+import { enrichOrganizationsBatch } from "./batchEnrich.js";
+import { buildBuyingCommittee } from "./buyingCommittee.js";
+import { analyzeHiringTrends } from "./hiringTrends.js";
+import { findSimilarOrganizations } from "./similarOrganizations.js";
+import { AnyWorkflow } from "./workflow.js";
+
+export const WORKFLOWS: AnyWorkflow[] = [
+  enrichOrganizationsBatch,
+  findSimilarOrganizations,
+  analyzeHiringTrends,
+  buildBuyingCommittee,
+];
@@ -0,0 +1,286 @@
+import { z } from "zod";
+import { budgetSummarySchema, executeCall } from "../execution.js";
+import { markdownTable } from "../format.js";
+import {
+  EnrichOrganizationResponse,
+  FindOrganizationsResponse,
+  Organization,
+  Technology,
+} from "../models.js";
+import { enrichOrganization, findOrganizations, organizationArgs, sinceArg } from "../tools.js";
+import { defineWorkflow } from "./workflow.js";
+
+// =============================================================================
+// LOOKALIKE DISCOVERY
+// =============================================================================
+
+const DEFAULT_FINGERPRINT_SIZE = 4;
+const DEFAULT_CANDIDATES = 25;
+
+// Technologies so widespread that sharing them says little about similarity.
+// They only make the fingerprint when the seed has nothing more specific.
+const UBIQUITOUS_TECHNOLOGIES = new Set([
+  "aws",
+  "css",
+  "docker",
+  "git",
+  "github",
+  "html",
+  "java",
+  "javascript",
+  "jira",
+  "linux",
+  "node.js",
+  "python",
+  "react",
+  "sql",
+  "typescript",
+]);
+
+const fingerprintSchema = z.object({
+  technology: z.string(),
+  jobs_count: z.number().nullable(),
+  people_count: z.number().nullable(),
+  // Share of the fingerprint's total weight, used for the weighted score
+  weight: z.number(),
+});
+
+type FingerprintEntry = z.infer<typeof fingerprintSchema>;
+
+const candidateSchema = z.object({
+  rank: z.number(),
+  id: z.number().nullable(),
+  name: z.string().nullable(),
+  domain: z.string().nullable(),
+  industry: z.string().nullable(),
+  total_employees: z.number().nullable(),
+  matched_technologies: z.array(z.string()),
+  // Share of the fingerprint's technologies matched (0-1), ignoring weights
+  coverage: z.number(),
+  // Fingerprint weight covered by the matched technologies (0-1)
+  score: z.number(),
+});
+
+type Candidate = z.infer<typeof candidateSchema>;
+
+const similarOutputSchema = z.object({
+  seed: z.object({
+    id: z.number().nullable(),
+    name: z.string().nullable(),
+    domain: z.string().nullable(),
+  }),
+  fingerprint: z.array(fingerprintSchema),
+  candidates: z.array(candidateSchema),
+  credits_spent: z.number(),
+  budget: budgetSummarySchema.optional(),
+});
+
+type SimilarOutput = z.infer<typeof similarOutputSchema>;
+
+// Activity signal for a technology at the seed: more job posts and people
+// using it means it is more central to the seed's stack
+function activity(tech: Technology): number {
+  return (tech.jobs_count ?? 0) + (tech.people_count ?? 0);
+}
+
+function isUbiquitous(tech: { name: string }): boolean {
+  return UBIQUITOUS_TECHNOLOGIES.has(tech.name.toLowerCase());
+}
+
+function pickFingerprint(technologies: Technology[], size: number): FingerprintEntry[] {
+  const used = technologies.filter(
+    (tech): tech is Technology & { name: string } => !!tech.name && activity(tech) > 0
+  );
+  const byActivity = [...used].sort((a, b) => activity(b) - activity(a));
+  const distinctive = byActivity.filter((tech) => !isUbiquitous(tech));
+  const common = byActivity.filter(isUbiquitous);
+  const picked = [...distinctive, ...common].slice(0, size);
+
+  // Dampen the activity so one dominant technology doesn't outweigh the rest,
+  // and count ubiquitous technologies at half weight
+  const weights = picked.map((tech) => Math.log1p(activity(tech)) * (isUbiquitous(tech) ? 0.5 : 1));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return picked.map((tech, index) => ({
+    technology: tech.name,
+    jobs_count: tech.jobs_count ?? null,
+    people_count: tech.people_count ?? null,
+    weight: total > 0 ? weights[index] / total : 1 / picked.length,
+  }));
+}
+
+function isSeed(org: Organization, seed: Organization | null | undefined, seedDomain?: string): boolean {
+  if (seed?.id != null && org.id === seed.id) return true;
+  const domain = org.domain?.toLowerCase();
+  return !!domain && (domain === seed?.domain?.toLowerCase() || domain === seedDomain?.toLowerCase());
+}
+
+function rankCandidates(
+  organizations: Organization[],
+  fingerprint: FingerprintEntry[],
+  exclude: (org: Organization) => boolean
+): Candidate[] {
+  const weights = new Map(fingerprint.map((entry) => [entry.technology.toLowerCase(), entry.weight]));
+  const scored = organizations
+    .filter((org) => !exclude(org))
+    .map((org) => {
+      const matched = (org.matching_technologies ?? []).filter((tech) => weights.has(tech.toLowerCase()));
+      return {
+        id: org.id ?? null,
+        name: org.name ?? null,
+        domain: org.domain ?? null,
+        industry: org.industry ?? null,
+        total_employees: org.total_employees ?? null,
+        matched_technologies: matched,
+        coverage: round(matched.length / fingerprint.length),
+        score: round(matched.reduce((sum, tech) => sum + (weights.get(tech.toLowerCase()) ?? 0), 0)),
+      };
+    })
+    .filter((candidate) => candidate.matched_technologies.length > 0);
+
+  scored.sort(
+    (a, b) =>
+      b.score - a.score || b.coverage - a.coverage || (b.total_employees ?? 0) - (a.total_employees ?? 0)
+  );
+  return scored.map((candidate, index) => ({ rank: index + 1, ...candidate }));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function renderSimilar(output: SimilarOutput): string {
+  const seed = output.seed.name ?? output.seed.domain ?? output.seed.id;
+  const fingerprint = output.fingerprint
+    .map((entry) => `${entry.technology} (${Math.round(entry.weight * 100)}%)`)
+    .join(", ");
+  const lines = [`Organizations similar to **${seed}**, fingerprinted by: ${fingerprint}.`];
+  if (output.candidates.length === 0) {
+    lines.push("", "No other organizations matched the fingerprint.");
+  } else {
+    lines.push(
+      "",
+      markdownTable(
+        ["Rank", "Organization", "Domain", "Industry", "Employees", "Matched technologies", "Score"],
+        output.candidates.map((candidate) => [
+          candidate.rank,
+          candidate.name,
+          candidate.domain,
+          candidate.industry,
+          candidate.total_employees,
+          candidate.matched_technologies.join(", "),
+          candidate.score.toFixed(2),
+        ])
+      )
+    );
+  }
+  lines.push("", `_${output.credits_spent} credits spent_`);
+  return lines.join("\n");
+}
+
+export const findSimilarOrganizations = defineWorkflow({
+  name: "find_similar_organizations",
+  description:
+    "Find lookalike companies for a seed organization. Enriches the seed with the technologies or categories you name, picks the most active of them (generic ones last) as a fingerprint, searches for organizations using them, and ranks the candidates by weighted technology overlap (the seed itself is excluded).",
+  usage: [
+    "Find companies similar to an existing customer",
+    "Build a target account list from a reference account's tech stack",
+    "Discover competitors or peers with a comparable stack",
+  ],
+  cost:
+    "one enrich_organization call for the seed (5 credits per technology found), plus one find_organizations call (5 credits per fingerprint technology per candidate returned).",
+  inputSchema: {
+    ...organizationArgs,
+    technologies: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Technologies to check the seed for; the fingerprint is chosen from the ones it uses. Broader lists find more distinctive fingerprints. Give these, technology_categories or both"
+      ),
+    technology_categories: z
+      .array(z.string())
+      .optional()
+      .describe("Technology categories to check the seed for"),
+    since: sinceArg,
+    fingerprint_size: z
+      .number()
+      .int()
+      .min(1)
+      .max(10)
+      .default(DEFAULT_FINGERPRINT_SIZE)
+      .describe("How many of the seed's technologies to search with (1-10)"),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .default(DEFAULT_CANDIDATES)
+      .describe("How many candidate organizations to fetch and rank (1-100)"),
+  },
+  outputSchema: similarOutputSchema,
+  run: async ({ client, budget, options }, args) => {
+    // enrich_organization's default set is mostly common technologies, which
+    // would make a fingerprint that matches nearly everyone
+    if (!args.technologies?.length && !args.technology_categories?.length) {
+      throw new Error(
+        "Provide `technologies` or `technology_categories` to fingerprint the seed with, e.g. the technologies it is known to use"
+      );
+    }
+
+    const enrichment = await executeCall(
+      enrichOrganization,
+      client,
+      budget,
+      {
+        domain: args.domain,
+        organization_id: args.organization_id,
+        slug: args.slug,
+        technologies: args.technologies,
+        technology_categories: args.technology_categories,
+        since: args.since,
+      },
+      options
+    );
+    if (!enrichment) throw new Error("The credit budget cannot cover enriching the seed organization");
+
+    const seedResponse = enrichment.response as EnrichOrganizationResponse;
+    const seed = seedResponse.organization;
+    const fingerprint = pickFingerprint(seedResponse.technologies ?? [], args.fingerprint_size);
+    if (fingerprint.length === 0) {
+      throw new Error(
+        "No technologies with job or people activity were found for the seed organization. Pass `technologies` or `technology_categories` it is likely to use."
+      );
+    }
+
+    // Ask for one extra result, since the seed itself usually matches
+    const search = await executeCall(
+      findOrganizations,
+      client,
+      budget,
+      {
+        technologies: fingerprint.map((entry) => entry.technology),
+        since: args.since,
+        order_by_column: "jobs_count",
+        order_by_direction: "DESC",
+        limit: args.limit + 1,
+        offset: 0,
+      },
+      options
+    );
+    if (!search) throw new Error("The credit budget cannot cover searching for similar organizations");
+
+    const candidates = rankCandidates(
+      (search.response as FindOrganizationsResponse).organizations ?? [],
+      fingerprint,
+      (org) => isSeed(org, seed, args.domain)
+    ).slice(0, args.limit);
+
+    const output: SimilarOutput = {
+      seed: { id: seed?.id ?? null, name: seed?.name ?? null, domain: seed?.domain ?? args.domain ?? null },
+      fingerprint,
+      candidates,
+      credits_spent: enrichment.spent + search.spent,
+      ...(budget.limited && { budget: budget.summary() }),
+    };
+    return { text: renderSimilar(output), structured: output };
+  },
+});
@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { SessionBudget } from "../budget.js";
+import { RequestOptions, SumbleClient } from "../client.js";
+import { ToolArgs } from "../tools.js";
+
+// =============================================================================
+// WORKFLOW TOOLS
+// =============================================================================
+//
+// Workflows are tools built from several Sumble API calls. They make those
+// calls through executeCall, so every call is cached, rate-limited and
+// charged to the session's credit budget like a direct tool call.
+
+export interface WorkflowContext {
+  client: SumbleClient;
+  budget: SessionBudget;
+  options: RequestOptions;
+}
+
+export interface WorkflowResult<Output> {
+  text: string;
+  structured: Output;
+}
+
+export interface WorkflowDefinition<
+  Shape extends z.ZodRawShape = z.ZodRawShape,
+  Output extends z.AnyZodObject = z.AnyZodObject,
+> {
+  name: string;
+  description: string;
+  usage: string[];
+  // How the workflow spends credits, in terms of the API tools it calls
+  cost: string;
+  inputSchema: Shape;
+  outputSchema: Output;
+  run: (context: WorkflowContext, args: ToolArgs<Shape>) => Promise<WorkflowResult<z.infer<Output>>>;
+}
+
+export type AnyWorkflow = WorkflowDefinition<any, any>;
+
+export function defineWorkflow<Shape extends z.ZodRawShape, Output extends z.AnyZodObject>(
+  workflow: WorkflowDefinition<Shape, Output>
+): WorkflowDefinition<Shape, Output> {
+  return workflow;
+}
+
+export function describeWorkflow(workflow: AnyWorkflow): string {
+  const usage = workflow.usage.map((line) => `- ${line}`).join("\n");
+  return `${workflow.description}
+
+Cost: ${workflow.cost}
+
+Use this to:
+${usage}`;
+}
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { resolveConfig } from "../src/config.js";
+
+function configFile(name: string, content: string): string {
+  const path = join(mkdtempSync(join(tmpdir(), "sumble-config-")), name);
+  writeFileSync(path, content);
+  return path;
+}
+
+describe("resolveConfig", () => {
+  it("fills in defaults when nothing is configured", () => {
+    const config = resolveConfig({ env: {} });
+    assert.equal(config.server.transport, "stdio");
+    assert.equal(config.server.port, 10000);
+    assert.equal(config.sumble.base_url, "https://api.sumble.com");
+    assert.equal(config.cache.enabled, true);
+    assert.deepEqual(config.tools.disabled, []);
+  });
+
+  it("reads YAML and JSON files", () => {
+    const yaml = configFile("sumble.yaml", "server:\n  transport: http\nbudget:\n  daily_credits: 500\n");
+    assert.equal(resolveConfig({ path: yaml, env: {} }).budget.daily_credits, 500);
+
+    const json = configFile("sumble.json", JSON.stringify({ limits: { max_limit: 25 } }));
+    assert.equal(resolveConfig({ path: json, env: {} }).limits.max_limit, 25);
+  });
+
+  it("lets environment variables override the file and options override both", () => {
+    const path = configFile("sumble.yaml", "server:\n  port: 8000\n  transport: http\ncache:\n  max_entries: 50\n");
+    const config = resolveConfig({
+      path,
+      env: { PORT: "9000", SUMBLE_CACHE: "off" },
+      overrides: { server: { port: 9100 } },
+    });
+    assert.equal(config.server.port, 9100);
+    assert.equal(config.server.transport, "http");
+    assert.equal(config.cache.enabled, false);
+    assert.equal(config.cache.max_entries, 50);
+  });
+
+  it("reports every invalid setting with its path", () => {
+    const path = configFile("sumble.yaml", "server:\n  transport: websocket\nlimits:\n  max_limt: 5\n");
+    assert.throws(
+      () => resolveConfig({ path, env: {} }),
+      (error: Error) =>
+        /server\.transport: Invalid enum value/.test(error.message) &&
+        /limits: Unrecognized key\(s\) in object: 'max_limt'/.test(error.message)
+    );
+  });
+
+  it("names the environment variable holding a bad value", () => {
+    assert.throws(
+      () => resolveConfig({ env: { SUMBLE_DAILY_CREDIT_BUDGET: "lots" } }),
+      /SUMBLE_DAILY_CREDIT_BUDGET must be a number/
+    );
+  });
+});
@@ -0,0 +1,942 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import { API_KEY_HEADER } from "../src/apiKeys.js";
+import { ENDPOINTS } from "../src/client.js";
+import type { CallMeta, DryRun, Pagination } from "../src/execution.js";
+import type {
+  EnrichOrganizationResponse,
+  FindJobsResponse,
+  FindOrganizationsResponse,
+  FindPeopleResponse,
+} from "../src/models.js";
+import type { UsageReport } from "../src/usage.js";
+import { callTool, Connection, connectStdio, HttpServer, startHttpServer } from "./harness.js";
+import { JOBS, ORGANIZATIONS, restoreFixtures } from "./mock/fixtures.js";
+import { MOCK_API_KEY, MockSumbleApi, RequestBody } from "./mock/sumbleApi.js";
+
+// =============================================================================
+// END-TO-END SUITE
+// =============================================================================
+//
+// Drives the stdio and HTTP servers through an MCP client against the mock
+// Sumble API. Each test uses its own arguments, since successful responses are
+// cached for the life of the server.
+
+// Structured content of the tools, as far as the tests read it
+type Called<Response> = Response & { call: CallMeta };
+type Paged<Response> = Called<Response> & { pagination: Pagination };
+type Normalized<Response> = Response & { normalized: { field: string; from: string; to: string }[] };
+
+interface WatchedAccountChanges {
+  status: string;
+  new_technologies: { name: string }[];
+  dropped_technologies: string[];
+  new_jobs: { id: number }[];
+  jobs_truncated: boolean;
+}
+
+const api = new MockSumbleApi();
+const AUTH_TOKEN = "e2e-token";
+const VIEWER_TOKEN = "viewer-token";
+
+before(async () => {
+  await api.start();
+});
+
+after(async () => {
+  await api.stop();
+});
+
+function serverEnv(): Record<string, string> {
+  return { SUMBLE_API_KEY: MOCK_API_KEY, SUMBLE_API_BASE_URL: api.baseUrl };
+}
+
+// Behaviour every transport must share
+function describeTransport(name: string, connect: () => Promise<Connection>) {
+  describe(name, () => {
+    let connection: Connection;
+
+    before(async () => {
+      connection = await connect();
+    });
+
+    after(async () => {
+      await connection.close();
+    });
+
+    beforeEach(() => api.reset());
+    afterEach(() => restoreFixtures());
+
+    it("lists the tools, resource templates and prompts", async () => {
+      const { tools } = await connection.client.listTools();
+      const names = tools.map((tool) => tool.name);
+      for (const tool of [
+        "find_organizations",
+        "enrich_organization",
+        "find_jobs",
+        "find_people",
+        "export_results",
+        "get_usage_report",
+        "refresh_watchlist",
+        "build_buying_committee",
+      ]) {
+        assert.ok(names.includes(tool), `missing tool ${tool}`);
+      }
+
+      const { resourceTemplates } = await connection.client.listResourceTemplates();
+      assert.ok(resourceTemplates.some((template) => template.uriTemplate === "sumble://job/{id}"));
+
+      const { prompts } = await connection.client.listPrompts();
+      assert.ok(prompts.some((prompt) => prompt.name === "account_research_brief"));
+    });
+
+    it("finds organizations by technology", async () => {
+      const result = await callTool<Called<FindOrganizationsResponse>>(connection.client, "find_organizations", {
+        technologies: ["snowflake"],
+        limit: 10,
+      });
+      assert.equal(result.isError, undefined);
+      assert.deepEqual(
+        result.structured.organizations?.map((org) => org.domain),
+        ["acme.com", "globex.com", "initech.com"]
+      );
+      assert.equal(result.structured.total, 3);
+      assert.match(result.text, /Acme Corp/);
+
+      const [request] = api.requestsTo(ENDPOINTS.findOrganizations);
+      assert.deepEqual(request.body.filters, { technologies: ["snowflake"] });
+      assert.equal(request.apiKey, MOCK_API_KEY);
+    });
+
+    it("enriches an organization and reports the credits spent", async () => {
+      const result = await callTool<Called<EnrichOrganizationResponse>>(connection.client, "enrich_organization", {
+        domain: "acme.com",
+        technologies: ["snowflake", "dbt"],
+      });
+      assert.equal(result.isError, undefined);
+      assert.equal(result.structured.organization?.name, "Acme Corp");
+      assert.deepEqual(
+        result.structured.technologies?.map((tech) => tech.name),
+        ["snowflake", "dbt"]
+      );
+      assert.equal(result.structured.call.credits_spent, 10);
+    });
+
+    it("finds people and jobs at an organization", async () => {
+      const people = await callTool<Called<FindPeopleResponse>>(connection.client, "find_people", {
+        domain: "acme.com",
+        job_levels: ["Director"],
+      });
+      assert.deepEqual(
+        people.structured.people?.map((person) => person.name),
+        ["Sam Okafor"]
+      );
+
+      const jobs = await callTool<Called<FindJobsResponse>>(connection.client, "find_jobs", {
+        domain: "globex.com",
+        limit: 5,
+      });
+      assert.equal(jobs.structured.total, 2);
+      assert.ok(jobs.structured.jobs?.every((job) => job.organization_domain === "globex.com"));
+    });
+
+    it("serves a repeated call from the cache", async () => {
+      const args = { domain: "initech.com", technologies: ["python"] };
+      const first = await callTool<Called<EnrichOrganizationResponse>>(connection.client, "enrich_organization", args);
+      const second = await callTool<Called<EnrichOrganizationResponse>>(connection.client, "enrich_organization", args);
+      assert.equal(first.structured.call.cache, "miss");
+      assert.equal(second.structured.call.cache, "hit");
+      assert.equal(api.requestsTo(ENDPOINTS.enrichOrganization).length, 1);
+    });
+
+    it("retries after a 429 with Retry-After", async () => {
+      api.fail({ endpoint: ENDPOINTS.findJobs, status: 429, retryAfter: 0 });
+      const result = await callTool(connection.client, "find_jobs", { technologies: ["python"], limit: 5 });
+      assert.equal(result.isError, undefined);
+      assert.equal(result.structured.total, 2);
+      assert.deepEqual(
+        api.requestsTo(ENDPOINTS.findJobs).map((request) => request.status),
+        [429, 200]
+      );
+    });
+
+    it("retries a transient 500", async () => {
+      api.fail({ endpoint: ENDPOINTS.findJobs, status: 500 });
+      const result = await callTool(connection.client, "find_jobs", { technologies: ["java"], limit: 5 });
+      assert.equal(result.isError, undefined);
+      assert.equal(api.requestsTo(ENDPOINTS.findJobs).length, 2);
+    });
+
+    it("reports a persistent 500 as a tool error", async () => {
+      api.fail({ endpoint: ENDPOINTS.findJobs, status: 500, times: 10 });
+      const result = await callTool(connection.client, "find_jobs", { technologies: ["azure"], limit: 5 });
+      assert.equal(result.isError, true);
+      assert.match(result.text, /500/);
+      assert.match(result.text, /Hint: The Sumble API is unavailable/);
+      // The first attempt plus three retries
+      assert.equal(api.requestsTo(ENDPOINTS.findJobs).length, 4);
+    });
+
+    it("reports a 401 without retrying", async () => {
+      api.fail({ endpoint: ENDPOINTS.findPeople, status: 401 });
+      const result = await callTool(connection.client, "find_people", { domain: "globex.com" });
+      assert.equal(result.isError, true);
+      assert.match(result.text, /401/);
+      assert.equal(api.requestsTo(ENDPOINTS.findPeople).length, 1);
+    });
+
+    it("classifies API errors and tells the model how to recover", async () => {
+      const unknown = await callTool(connection.client, "enrich_organization", { domain: "no-such-company.example" });
+      assert.equal(unknown.isError, true);
+      assert.match(unknown.text, /Sumble API error \(404\): Organization not found/);
+      assert.match(unknown.text, /Hint: Organization not found\. Try its slug or organization_id/);
+      assert.deepEqual(unknown._meta?.sumble_error, { kind: "not_found", code: -32602, status: 404 });
+
+      api.fail({
+        endpoint: ENDPOINTS.findJobs,
+        status: 422,
+        body: { detail: [{ loc: ["body", "filters", "countries", 0], msg: "unknown country code" }] },
+      });
+      const invalid = await callTool(connection.client, "find_jobs", { technologies: ["go"], countries: ["GB"], limit: 5 });
+      assert.match(invalid.text, /\(422\): filters\.countries\.0: unknown country code/);
+      assert.match(invalid.text, /rejected the arguments \(filters\.countries\.0\)/);
+
+      api.fail({ endpoint: ENDPOINTS.findJobs, status: 402, body: { detail: "Insufficient credits" } });
+      const broke = await callTool(connection.client, "find_jobs", { technologies: ["rust"], limit: 5 });
+      assert.equal((broke._meta?.sumble_error as { kind: string }).kind, "insufficient_credits");
+      assert.match(broke.text, /out of credits/);
+
+      // A 429 that means the credits ran out is not retried
+      api.reset();
+      api.fail({ endpoint: ENDPOINTS.findJobs, status: 429, retryAfter: 0, body: { detail: "Out of credits" }, times: 4 });
+      const limited = await callTool(connection.client, "find_jobs", { technologies: ["go"], limit: 5 });
+      assert.equal((limited._meta?.sumble_error as { kind: string }).kind, "insufficient_credits");
+      assert.equal(api.requestsTo(ENDPOINTS.findJobs).length, 1);
+    });
+
+    it("waits out a slow response", async () => {
+      api.fail({ endpoint: ENDPOINTS.findOrganizations, delayMs: 500 });
+      const started = Date.now();
+      const result = await callTool<Called<FindOrganizationsResponse>>(connection.client, "find_organizations", {
+        technologies: ["azure"],
+        limit: 10,
+      });
+      assert.equal(result.isError, undefined);
+      assert.ok(Date.now() - started >= 500);
+      assert.equal(result.structured.organizations?.length, 2);
+    });
+
+    it("previews a call with dry_run without calling the API", async () => {
+      const result = await callTool<{ dry_run: DryRun }>(connection.client, "find_organizations", {
+        technologies: ["kubernetes", "aws"],
+        limit: 4,
+        dry_run: true,
+      });
+      assert.equal(result.isError, undefined);
+      const { dry_run } = result.structured;
+      const body = dry_run.request_body as RequestBody;
+      assert.deepEqual(body.filters, { technologies: ["kubernetes", "aws"] });
+      assert.equal(body.limit, 4);
+      // 5 credits per filter for each of up to 4 organizations
+      assert.equal(dry_run.credits_per_result, 10);
+      assert.equal(dry_run.estimated_max_credits, 40);
+      assert.equal(dry_run.budget_status, "ok");
+      assert.equal(api.requests.length, 0);
+    });
+
+    it("pages with max_results and resumes from next_cursor", async () => {
+      const first = await callTool<Paged<FindOrganizationsResponse>>(connection.client, "find_organizations", {
+        technologies: ["snowflake"],
+        max_results: 2,
+      });
+      assert.equal(first.isError, undefined);
+      assert.deepEqual(
+        first.structured.organizations?.map((org) => org.domain),
+        ["acme.com", "globex.com"]
+      );
+      assert.equal(first.structured.pagination.stopped, "complete");
+      const cursor = first.structured.pagination.next_cursor;
+      assert.ok(cursor);
+
+      const rest = await callTool<Paged<FindOrganizationsResponse>>(connection.client, "find_organizations", {
+        technologies: ["snowflake"],
+        max_results: 2,
+        cursor,
+      });
+      assert.deepEqual(
+        rest.structured.organizations?.map((org) => org.domain),
+        ["initech.com"]
+      );
+      assert.equal(rest.structured.pagination.stopped, "exhausted");
+      assert.equal(rest.structured.pagination.next_cursor, undefined);
+      assert.deepEqual(
+        api.requestsTo(ENDPOINTS.findOrganizations).map((request) => request.body.offset),
+        [0, 2]
+      );
+
+      // A cursor only continues the search it came from
+      const mismatched = await callTool(connection.client, "find_organizations", {
+        technologies: ["dbt"],
+        max_results: 2,
+        cursor,
+      });
+      assert.equal(mismatched.isError, true);
+      assert.match(mismatched.text, /Cursor does not match/);
+      assert.equal(api.requestsTo(ENDPOINTS.findOrganizations).length, 2);
+    });
+
+    it("enriches a batch of organizations into a technology matrix", async () => {
+      const result = await callTool<{
+        matrix: Record<string, Record<string, number>>;
+        summary: Record<string, number>;
+        items: { organization: string; status: string }[];
+      }>(connection.client, "enrich_organizations_batch", {
+        domains: ["acme.com", "globex.com", "nowhere.example"],
+        technologies: ["snowflake", "azure"],
+      });
+      assert.equal(result.isError, undefined);
+      assert.deepEqual(result.structured.matrix, {
+        "acme.com": { snowflake: 12 },
+        "globex.com": { snowflake: 20, azure: 25 },
+      });
+      assert.deepEqual(result.structured.summary, {
+        succeeded: 2,
+        failed: 1,
+        budget_exceeded: 0,
+        credits_spent: 15,
+      });
+      const failed = result.structured.items.find((item) => item.organization === "nowhere.example");
+      assert.equal(failed?.status, "error");
+    });
+
+    it("ranks organizations similar to a seed, leaving out the seed", async () => {
+      const result = await callTool<{
+        fingerprint: { technology: string }[];
+        candidates: { domain: string; matched_technologies: string[]; coverage: number }[];
+      }>(connection.client, "find_similar_organizations", {
+        domain: "acme.com",
+        technologies: ["snowflake", "dbt", "kubernetes"],
+        fingerprint_size: 2,
+      });
+      assert.equal(result.isError, undefined);
+      const fingerprint = result.structured.fingerprint.map((entry) => entry.technology);
+      assert.equal(fingerprint.length, 2);
+
+      const [search] = api.requestsTo(ENDPOINTS.findOrganizations);
+      assert.deepEqual(search.body.filters.technologies, fingerprint);
+      const candidates = result.structured.candidates;
+      assert.ok(candidates.length > 0);
+      assert.ok(candidates.every((candidate) => candidate.domain !== "acme.com"));
+      for (const candidate of candidates) {
+        assert.ok(candidate.matched_technologies.every((tech) => fingerprint.includes(tech)));
+        assert.equal(candidate.coverage, candidate.matched_technologies.length / fingerprint.length);
+      }
+
+      // The default technologies are too common to fingerprint a seed with
+      const unseeded = await callTool(connection.client, "find_similar_organizations", { domain: "globex.com" });
+      assert.equal(unseeded.isError, true);
+      assert.match(unseeded.text, /Provide `technologies` or `technology_categories`/);
+      // Only the seeded search's enrichment and search reached the API
+      assert.equal(api.requests.length, 2);
+    });
+
+    it("counts hiring by month and breaks the sample down", async () => {
+      JOBS.push({
+        id: 5010,
+        organization_id: 101,
+        job_title: "Rust Engineer",
+        location: "Remote",
+        country: "US",
+        datetime_pulled: new Date().toISOString(),
+        primary_job_function: "Engineer",
+        matched_technologies: ["rust"],
+      });
+      const result = await callTool<{
+        counts_from: string;
+        total_jobs: number;
+        monthly: { jobs: number }[];
+        by_technology: { name: string }[];
+        by_country: { name: string }[];
+      }>(connection.client, "analyze_hiring_trends", {
+        technologies: ["rust"],
+        months: 2,
+        sample_size: 5,
+      });
+      assert.equal(result.isError, undefined);
+      const trends = result.structured;
+      assert.equal(trends.counts_from, "totals");
+      assert.equal(trends.total_jobs, 1);
+      assert.deepEqual(
+        trends.monthly.map((month) => month.jobs),
+        [0, 1]
+      );
+      assert.deepEqual(trends.by_technology.map((row) => row.name), ["rust"]);
+      assert.deepEqual(trends.by_country.map((row) => row.name), ["US"]);
+      // Two monthly counts and one sample page
+      assert.equal(api.requestsTo(ENDPOINTS.findJobs).length, 3);
+    });
+
+    it("exports fetched results with a column mapping", async () => {
+      await callTool(connection.client, "find_organizations", { technologies: ["dbt"], limit: 10 });
+      const result = await callTool<{ columns: string[]; rows: number }>(connection.client, "export_results", {
+        kind: "organizations",
+        format: "jsonl",
+        columns: [
+          { header: "Company", field: "name" },
+          { header: "Domain", field: "domain" },
+        ],
+      });
+      assert.equal(result.isError, undefined);
+      assert.deepEqual(result.structured.columns, ["Company", "Domain"]);
+      const file = result.content.find((item) => item.type === "resource");
+      assert.ok(file && "text" in file.resource);
+      const rows = (file.resource.text as string).trim().split("\n").map((line) => JSON.parse(line));
+      assert.equal(rows.length, result.structured.rows);
+      assert.ok(rows.some((row) => row.Company === "Initech" && row.Domain === "initech.com"));
+    });
+
+    it("serves fetched organizations as resources", async () => {
+      await callTool(connection.client, "enrich_organization", { domain: "globex.com", technologies: ["java"] });
+
+      const { resources } = await connection.client.listResources();
+      const uris = resources.map((resource) => resource.uri);
+      assert.ok(uris.includes("sumble://organization/globex.com"));
+      assert.ok(uris.includes("sumble://organization/102/technologies"));
+
+      const read = async (uri: string) => {
+        const { contents } = await connection.client.readResource({ uri });
+        return JSON.parse((contents[0] as { text: string }).text);
+      };
+      assert.equal((await read("sumble://organization/globex.com")).organization.name, "Globex");
+      const technologies = await read("sumble://organization/102/technologies");
+      assert.ok(technologies.technologies.some((tech: { name: string }) => tech.name === "java"));
+
+      await assert.rejects(
+        connection.client.readResource({ uri: "sumble://job/999999" }),
+        /has not been fetched in this session/
+      );
+    });
+
+    it("normalises identifiers and reports the rewrites", async () => {
+      const result = await callTool<Normalized<Called<FindJobsResponse>>>(connection.client, "find_jobs", {
+        domain: "https://www.Acme.com/careers",
+        technologies: ["k8s", "kubernetes"],
+        countries: ["United States"],
+        limit: 5,
+      });
+      assert.equal(result.isError, undefined);
+      assert.equal(result.structured.total, 1);
+      assert.deepEqual(result.structured.normalized, [
+        { field: "domain", from: "https://www.Acme.com/careers", to: "acme.com" },
+        { field: "technologies", from: "k8s", to: "kubernetes" },
+        { field: "countries", from: "United States", to: "US" },
+      ]);
+      assert.match(result.text, /Normalised input: domain "https:\/\/www\.Acme\.com\/careers" → "acme\.com"/);
+
+      const [request] = api.requestsTo(ENDPOINTS.findJobs);
+      assert.deepEqual(request.body.organization, { domain: "acme.com" });
+      assert.deepEqual(request.body.filters, { technologies: ["kubernetes"], countries: ["US"] });
+    });
+
+    it("rejects invalid arguments before calling the API", async () => {
+      const rejected = async (name: string, args: Record<string, unknown>, message: RegExp) => {
+        const result = await callTool(connection.client, name, args);
+        assert.equal(result.isError, true, `${name} accepted ${JSON.stringify(args)}`);
+        assert.match(result.text, message);
+      };
+      await rejected("find_jobs", { technologies: ["python"], since: "last month" }, /YYYY-MM-DD.*since/);
+      await rejected("find_jobs", { technologies: ["python"], since: "2025-02-30" }, /not a valid calendar date/);
+      await rejected("find_people", { domain: "acme.com", slug: "globex" }, /Conflicting organization identifiers \(domain, slug\)/);
+      await rejected("find_organizations", { technology: ["python"] }, /Unrecognized key.*technology/);
+      await rejected("find_organizations", {}, /at least one filter/);
+      await rejected("find_jobs", {}, /Provide an organization/);
+      await rejected("find_people", { domain: "acme.com", limit: 1000 }, /limit/);
+      assert.equal(api.requests.length, 0);
+    });
+
+    it("builds a buying committee ranked by seniority and relevance", async () => {
+      const result = await callTool<{
+        committee: Record<string, { name: string; matched_terms: string[] }[]>;
+        technologies: { name: string }[];
+        people_found: number;
+        credits_spent: number;
+      }>(connection.client, "build_buying_committee", {
+        domain: "acme.com",
+        product_area: "data infrastructure",
+      });
+      assert.equal(result.isError, undefined);
+      const { committee } = result.structured;
+      const names = (role: string) => committee[role].map((member) => member.name);
+      assert.deepEqual(names("economic_buyer"), ["Dana Whitfield"]);
+      assert.deepEqual(names("technical_champion"), ["Sam Okafor"]);
+      assert.deepEqual(names("end_user"), ["Priya Natarajan"]);
+      assert.deepEqual(committee.end_user[0].matched_terms, ["data"]);
+      assert.deepEqual(
+        result.structured.technologies.map((tech) => tech.name),
+        ["snowflake", "dbt"]
+      );
+
+      // Everyone turns up in more than one of the three searches but is listed once
+      assert.equal(api.requestsTo(ENDPOINTS.findPeople).length, 3);
+      assert.equal(result.structured.people_found, 3);
+      assert.equal(result.structured.credits_spent, 15);
+    });
+
+    it("takes the product area a description names last, as whole words", async () => {
+      const committeeFor = async (productArea: string) => {
+        api.reset();
+        const result = await callTool(connection.client, "build_buying_committee", {
+          domain: "acme.com",
+          product_area: productArea,
+        });
+        assert.equal(result.isError, undefined);
+        const [enrich] = api.requestsTo(ENDPOINTS.enrichOrganization);
+        // The searches run concurrently; the last one filters by function alone
+        const byFunction = api.requestsTo(ENDPOINTS.findPeople).find((request) => !request.body.filters.job_levels);
+        return { technologies: enrich.body.filters.technologies ?? [], jobFunctions: byFunction!.body.filters.job_functions };
+      };
+
+      const security = await committeeFor("cloud security");
+      assert.ok(security.technologies.includes("okta"));
+      assert.deepEqual(security.jobFunctions, ["Security", "Engineer", "IT"]);
+
+      // "metadata" is not "data": no built-in area, so the default technologies
+      const metadata = await committeeFor("metadata platform");
+      assert.ok(!metadata.technologies.includes("snowflake"));
+      assert.deepEqual(metadata.jobFunctions, ["Engineer"]);
+    });
+
+    it("reports technology and hiring changes for watched accounts", async () => {
+      const added = await callTool<{ added: string[]; technologies: string[] }>(connection.client, "add_to_watchlist", {
+        watchlist: "targets",
+        domains: ["https://www.Umbrella.com", "initech.com"],
+        technologies: ["java", "azure", "k8s"],
+      });
+      assert.deepEqual(added.structured.added, ["umbrella.com", "initech.com"]);
+      assert.deepEqual(added.structured.technologies, ["java", "azure", "kubernetes"]);
+
+      const baseline = await callTool<{ summary: Record<string, number> }>(connection.client, "refresh_watchlist", {
+        watchlist: "targets",
+      });
+      assert.equal(baseline.isError, undefined);
+      assert.equal(baseline.structured.summary.baseline, 2);
+      assert.equal(api.requestsTo(ENDPOINTS.enrichOrganization).length, 2);
+
+      // Umbrella starts hiring for Kubernetes and stops showing Azure
+      const umbrella = ORGANIZATIONS.find((org) => org.domain === "umbrella.com")!;
+      const original = umbrella.technologies;
+      umbrella.technologies = [
+        original[0],
+        { name: "kubernetes", category: "cloud", jobs_count: 4, people_count: 12, teams_count: 2, last_job_post: "2025-06-01" },
+      ];
+      JOBS.push({
+        id: 5007,
+        organization_id: umbrella.id,
+        job_title: "Kubernetes Platform Engineer",
+        location: "Berlin",
+        country: "DE",
+        datetime_pulled: new Date().toISOString(),
+        primary_job_function: "Engineer",
+        matched_technologies: ["kubernetes"],
+      });
+      const refresh = async (args: Record<string, unknown> = {}) =>
+        (
+          await callTool<{ accounts: WatchedAccountChanges[] }>(connection.client, "refresh_watchlist", {
+            watchlist: "targets",
+            domains: ["umbrella.com"],
+            ...args,
+          })
+        ).structured.accounts[0];
+
+      // A failed job search records nothing, so the next refresh still reports the changes
+      api.fail({ endpoint: ENDPOINTS.findJobs, status: 401 });
+      const failed = await refresh();
+      assert.equal(failed.status, "error");
+      assert.deepEqual(failed.dropped_technologies, ["azure"]);
+
+      const changed = await refresh();
+      assert.equal(changed.status, "changed");
+      assert.deepEqual(
+        changed.new_technologies.map((tech) => tech.name),
+        ["kubernetes"]
+      );
+      assert.deepEqual(changed.dropped_technologies, ["azure"]);
+      assert.deepEqual(
+        changed.new_jobs.map((job) => job.id),
+        [5007]
+      );
+
+      // Nothing new is reported twice, however often the list is refreshed in a day
+      assert.equal((await refresh()).status, "unchanged");
+      assert.equal((await refresh()).status, "unchanged");
+
+      // Postings beyond max_jobs_per_account are held over, not skipped
+      JOBS.push(
+        { ...JOBS[JOBS.length - 1], id: 5008, job_title: "SRE" },
+        { ...JOBS[JOBS.length - 1], id: 5009, job_title: "Platform Lead" }
+      );
+      const first = await refresh({ max_jobs_per_account: 1 });
+      assert.equal(first.new_jobs.length, 1);
+      assert.equal(first.jobs_truncated, true);
+      const second = await refresh({ max_jobs_per_account: 1 });
+      assert.equal(second.new_jobs.length, 1);
+      assert.notEqual(second.new_jobs[0].id, first.new_jobs[0].id);
+      const rest = await refresh({ max_jobs_per_account: 1 });
+      assert.equal(rest.status, "unchanged");
+      assert.equal(rest.jobs_truncated, false);
+
+      await callTool(connection.client, "remove_from_watchlist", { watchlist: "targets", domains: ["initech.com"] });
+      const listed = await callTool<{ watchlists: { accounts: { domain: string }[] }[] }>(
+        connection.client,
+        "list_watchlists",
+        {}
+      );
+      assert.deepEqual(
+        listed.structured.watchlists[0].accounts.map((account) => account.domain),
+        ["umbrella.com"]
+      );
+    });
+
+    it("takes a new baseline when the tracked technologies change", async () => {
+      const track = (technologies: string[]) =>
+        callTool(connection.client, "add_to_watchlist", { watchlist: "retracked", domains: ["globex.com"], technologies });
+      const refresh = async () =>
+        (
+          await callTool<{ accounts: WatchedAccountChanges[] }>(connection.client, "refresh_watchlist", {
+            watchlist: "retracked",
+            max_jobs_per_account: 0,
+          })
+        ).structured.accounts[0];
+
+      await track(["snowflake"]);
+      assert.equal((await refresh()).status, "baseline");
+
+      const retracked = await track(["azure"]);
+      assert.match(retracked.text, /1 refreshed accounts get a new one/);
+      const rebaselined = await refresh();
+      assert.equal(rebaselined.status, "baseline");
+      assert.deepEqual(rebaselined.dropped_technologies, []);
+      assert.deepEqual(rebaselined.new_technologies, []);
+      assert.equal((await refresh()).status, "unchanged");
+    });
+
+    it("records API calls in the usage report", async () => {
+      const report = async () =>
+        (await callTool<UsageReport>(connection.client, "get_usage_report", { tool: "find_people" })).structured;
+      const before = await report();
+      await callTool(connection.client, "find_people", { domain: "globex.com", job_levels: ["Director"] });
+      const after = await report();
+      assert.equal(after.totals.calls, before.totals.calls + 1);
+      assert.equal(after.totals.credits, before.totals.credits + 1);
+      assert.deepEqual(
+        after.by_tool.map((group) => group.name),
+        ["find_people"]
+      );
+    });
+
+    it("records the credits the budget counted when the API leaves credits_used out", async () => {
+      const report = async () =>
+        (await callTool<UsageReport>(connection.client, "get_usage_report", { tool: "find_organizations" })).structured;
+      const before = await report();
+      api.omitCredits = true;
+      const result = await callTool<Called<FindOrganizationsResponse>>(connection.client, "find_organizations", {
+        technologies: ["snowflake", "dbt"],
+        limit: 10,
+      });
+      const after = await report();
+
+      // 5 credits per filter per organization, as the budget charges
+      const found = result.structured.organizations?.length ?? 0;
+      assert.ok(found > 0);
+      assert.equal(result.structured.call.credits_spent, found * 10);
+      assert.equal(after.totals.credits - before.totals.credits, found * 10);
+    });
+  });
+}
+
+describeTransport("stdio server", () => connectStdio(serverEnv()));
+
+describe("stdio server with a session credit budget", () => {
+  let connection: Connection;
+
+  before(async () => {
+    connection = await connectStdio({ ...serverEnv(), SUMBLE_SESSION_CREDIT_BUDGET: "12" });
+  });
+
+  after(async () => {
+    await connection.close();
+  });
+
+  beforeEach(() => api.reset());
+
+  it("lowers limit to what the budget affords, then refuses calls it can't cover", async () => {
+    const truncated = await callTool<Called<FindOrganizationsResponse>>(connection.client, "find_organizations", {
+      technologies: ["snowflake"],
+      limit: 10,
+    });
+    assert.equal(truncated.isError, undefined);
+    assert.equal(api.requestsTo(ENDPOINTS.findOrganizations)[0].body.limit, 2);
+    assert.equal(truncated.structured.organizations?.length, 2);
+    assert.equal(truncated.structured.call.truncated, "limit lowered from 10 to 2 to fit the credit budget");
+    assert.equal(truncated.structured.call.credits_spent, 10);
+    assert.equal(truncated.structured.call.budget?.session_remaining, 2);
+
+    const refused = await callTool(connection.client, "find_organizations", { technologies: ["java"], limit: 5 });
+    assert.equal(refused.isError, true);
+    assert.equal(JSON.parse(refused.text).error, "credit_budget_exceeded");
+    assert.equal(api.requests.length, 1);
+  });
+});
+
+describe("stdio server with a config file", () => {
+  let connection: Connection;
+
+  before(async () => {
+    const path = join(mkdtempSync(join(tmpdir(), "sumble-e2e-")), "sumble.yaml");
+    writeFileSync(
+      path,
+      [
+        "tools:",
+        "  disabled: [find_people]",
+        "defaults:",
+        "  find_jobs:",
+        "    countries: [GB]",
+        "  find_organizations:",
+        "    limit: 3",
+        "limits:",
+        "  max_limit: 5",
+        "",
+      ].join("\n")
+    );
+    connection = await connectStdio(serverEnv(), ["--config", path]);
+  });
+
+  after(async () => {
+    await connection.close();
+  });
+
+  beforeEach(() => api.reset());
+
+  it("leaves out disabled tools", async () => {
+    const { tools } = await connection.client.listTools();
+    const names = tools.map((tool) => tool.name);
+    assert.ok(names.includes("find_jobs"));
+    assert.ok(!names.includes("find_people"));
+  });
+
+  it("applies default arguments and caps limits", async () => {
+    const result = await callTool(connection.client, "find_jobs", { technologies: ["snowflake"] });
+    assert.equal(result.isError, undefined);
+    const [request] = api.requestsTo(ENDPOINTS.findJobs);
+    assert.deepEqual(request.body.filters, { technologies: ["snowflake"], countries: ["GB"] });
+    assert.equal(request.body.limit, 5);
+
+    const capped = await callTool(connection.client, "find_jobs", { technologies: ["snowflake"], limit: 20 });
+    assert.equal(capped.isError, true);
+    assert.match(capped.text, /limit/);
+  });
+
+  it("applies default arguments in place of built-in defaults", async () => {
+    const { tools } = await connection.client.listTools();
+    const findOrganizations = tools.find((tool) => tool.name === "find_organizations")!;
+    assert.equal((findOrganizations.inputSchema.properties!.limit as { default?: number }).default, 3);
+
+    const result = await callTool(connection.client, "find_organizations", { technologies: ["snowflake"] });
+    assert.equal(result.isError, undefined);
+    assert.equal(api.requestsTo(ENDPOINTS.findOrganizations)[0].body.limit, 3);
+  });
+});
+
+describe("HTTP server", () => {
+  let server: HttpServer;
+
+  before(async () => {
+    server = await startHttpServer({
+      ...serverEnv(),
+      MCP_AUTH_TOKENS: `e2e:${AUTH_TOKEN},viewer:${VIEWER_TOKEN}`,
+      MCP_ADMIN_USERS: "e2e",
+    });
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  describeTransport("streamable HTTP", () => server.connect({ Authorization: `Bearer ${AUTH_TOKEN}` }));
+
+  it("rejects requests without a bearer token", async () => {
+    const response = await fetch(`${server.url}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    assert.equal(response.status, 401);
+    assert.match(response.headers.get("www-authenticate") ?? "", /Bearer/);
+  });
+
+  it("sends a caller's own Sumble API key upstream", async () => {
+    const connection = await server.connect({
+      Authorization: `Bearer ${AUTH_TOKEN}`,
+      [API_KEY_HEADER]: "someone-elses-key",
+    });
+    try {
+      api.reset();
+      const result = await callTool(connection.client, "find_people", { domain: "acme.com" });
+      assert.equal(result.isError, true);
+      assert.match(result.text, /401/);
+      assert.equal(api.requests[0].apiKey, "someone-elses-key");
+    } finally {
+      await connection.close();
+    }
+  });
+
+  it("serves the legacy /sse and /messages transport", async () => {
+    const connection = await server.connectSse({ Authorization: `Bearer ${AUTH_TOKEN}` });
+    try {
+      api.reset();
+      const result = await callTool<Called<FindJobsResponse>>(connection.client, "find_jobs", { domain: "globex.com", limit: 3 });
+      assert.equal(result.isError, undefined);
+      assert.deepEqual(
+        result.structured.jobs?.map((job) => job.id),
+        [5004, 5005]
+      );
+      assert.equal(api.requestsTo(ENDPOINTS.findJobs)[0].apiKey, MOCK_API_KEY);
+    } finally {
+      await connection.close();
+    }
+
+    // Messages are only accepted for an open SSE session
+    const orphan = await fetch(`${server.url}/messages?sessionId=unknown`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${AUTH_TOKEN}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    assert.equal(orphan.status, 400);
+  });
+
+  it("reports usage across sessions to admins only", async () => {
+    const usage = (token: string) =>
+      fetch(`${server.url}/admin/usage`, { headers: { Authorization: `Bearer ${token}` } });
+
+    const report = (await (await usage(AUTH_TOKEN)).json()) as UsageReport;
+    assert.ok(report.totals.calls > 0);
+    assert.ok(report.by_user.some((group) => group.name === "e2e"));
+
+    assert.equal((await usage(VIEWER_TOKEN)).status, 403);
+  });
+
+  it("serves Prometheus metrics and tags responses with a request ID", async () => {
+    const response = await fetch(`${server.url}/metrics`, { headers: { "X-Request-Id": "scrape-1" } });
+    assert.equal(response.headers.get("x-request-id"), "scrape-1");
+    const text = await response.text();
+    assert.match(text, /# TYPE sumble_mcp_tool_calls_total counter/);
+    assert.match(text, /sumble_mcp_tool_calls_total\{tool="find_organizations",status="success"\} [1-9]/);
+    assert.match(text, /sumble_api_requests_total\{endpoint="\/v3\/people\/find",status="401"\} [1-9]/);
+    assert.match(text, /sumble_api_request_duration_seconds_count\{endpoint="\/v3\/organizations\/find"\} [1-9]/);
+    assert.match(text, /sumble_credits_spent_total\{tool="find_organizations"\} [1-9]/);
+    assert.match(text, /sumble_mcp_active_sessions\{transport="streamable_http"\} \d/);
+
+    const generated = await fetch(`${server.url}/health`, { headers: { "X-Request-Id": "not a valid id" } });
+    assert.match(generated.headers.get("x-request-id") ?? "", /^[0-9a-f-]{36}$/);
+  });
+});
+
+describe("HTTP server with an idle session timeout", () => {
+  let server: HttpServer;
+
+  before(async () => {
+    server = await startHttpServer({ ...serverEnv(), MCP_SESSION_IDLE_SECONDS: "1" });
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  it("closes sessions left without requests", async () => {
+    const post = (body: object, sessionId?: string) =>
+      fetch(`${server.url}/mcp`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          ...(sessionId && { "Mcp-Session-Id": sessionId }),
+        },
+        body: JSON.stringify(body),
+      });
+    const initialized = await post({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "idle", version: "1.0.0" } },
+    });
+    const sessionId = initialized.headers.get("mcp-session-id")!;
+    await initialized.text();
+    assert.equal((await post({ jsonrpc: "2.0", method: "notifications/initialized" }, sessionId)).status, 202);
+
+    await new Promise((resolve) => setTimeout(resolve, 2500));
+    assert.equal((await post({ jsonrpc: "2.0", id: 2, method: "tools/list" }, sessionId)).status, 404);
+  });
+});
+
+describe("stateless HTTP server", () => {
+  let server: HttpServer;
+
+  before(async () => {
+    server = await startHttpServer({ ...serverEnv(), MCP_STATELESS: "true" });
+  });
+
+  after(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => api.reset());
+
+  it("serves each request without a session", async () => {
+    const initialized = await fetch(`${server.url}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: { protocolVersion: "2025-06-18", capabilities: {}, clientInfo: { name: "stateless", version: "1.0.0" } },
+      }),
+    });
+    assert.equal(initialized.status, 200);
+    assert.equal(initialized.headers.get("mcp-session-id"), null);
+    await initialized.text();
+
+    const connection = await server.connect();
+    try {
+      const result = await callTool(connection.client, "find_people", { domain: "globex.com" });
+      assert.equal(result.isError, undefined);
+      assert.equal(api.requestsTo(ENDPOINTS.findPeople).length, 1);
+    } finally {
+      await connection.close();
+    }
+
+    // There is no session to open a stream on
+    const stream = await fetch(`${server.url}/mcp`, { headers: { Accept: "text/event-stream" } });
+    assert.equal(stream.status, 405);
+  });
+
+  it("does not offer resources, which could never hold an earlier result", async () => {
+    const connection = await server.connect();
+    try {
+      assert.equal(connection.client.getServerCapabilities()?.resources, undefined);
+      const { tools } = await connection.client.listTools();
+      assert.ok(tools.some((tool) => tool.name === "export_results"));
+    } finally {
+      await connection.close();
+    }
+  });
+
+  it("keeps the admin endpoints closed without authentication", async () => {
+    const response = await fetch(`${server.url}/admin/usage`);
+    assert.equal(response.status, 403);
+    assert.match((await response.json()).error, /requires authentication/);
+  });
+});
@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  parseErrorBody,
+  sumbleApiError,
+  SumbleAuthError,
+  SumbleInsufficientCreditsError,
+  SumbleRateLimitError,
+  SumbleUnavailableError,
+} from "../src/errors.js";
+
+describe("parseErrorBody", () => {
+  it("reads FastAPI validation errors, message fields and plain text", () => {
+    assert.deepEqual(
+      parseErrorBody(JSON.stringify({ detail: [{ loc: ["body", "limit"], msg: "must be at most 250" }] })),
+      { message: "limit: must be at most 250", fields: ["limit"] }
+    );
+    assert.deepEqual(parseErrorBody(JSON.stringify({ message: "Bad filter" })), { message: "Bad filter", fields: [] });
+    assert.deepEqual(parseErrorBody("<html>502 Bad Gateway</html>"), { message: "<html>502 Bad Gateway</html>", fields: [] });
+  });
+});
+
+describe("sumbleApiError", () => {
+  it("classifies responses by status and body", () => {
+    assert.ok(sumbleApiError(401, '{"detail":"Invalid API key"}') instanceof SumbleAuthError);
+    assert.ok(sumbleApiError(403, '{"detail":"Not enough credits"}') instanceof SumbleInsufficientCreditsError);
+    assert.ok(sumbleApiError(503, "") instanceof SumbleUnavailableError);
+
+    const limited = sumbleApiError(429, '{"detail":"Too many requests"}', 30_000);
+    assert.ok(limited instanceof SumbleRateLimitError);
+    assert.equal(limited.code, -32012);
+    assert.match(limited.hint, /Wait 30 seconds/);
+  });
+});
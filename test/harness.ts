@@ -0,0 +1,121 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { ChildProcess, spawn } from "node:child_process";
+import { createServer } from "node:net";
+import { fileURLToPath } from "node:url";
+
+// =============================================================================
+// SERVER HARNESS
+// =============================================================================
+//
+// Starts the compiled stdio and HTTP servers as child processes and connects
+// an MCP client to them. Only the variables given are passed through, so a
+// developer's own SUMBLE_* settings never reach the servers under test.
+
+const CLI_ENTRY = fileURLToPath(new URL("../src/cli.js", import.meta.url));
+
+const STARTUP_TIMEOUT_MS = 10_000;
+
+export interface Connection {
+  client: Client;
+  close(): Promise<void>;
+}
+
+function newClient(): Client {
+  return new Client({ name: "sumble-e2e", version: "1.0.0" });
+}
+
+// `args` are extra command-line options for `sumble-mcp serve`
+export async function connectStdio(env: Record<string, string>, args: string[] = []): Promise<Connection> {
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [CLI_ENTRY, "serve", "--transport", "stdio", ...args],
+    env,
+    stderr: "ignore",
+  });
+  const client = newClient();
+  await client.connect(transport);
+  return { client, close: () => client.close() };
+}
+
+async function freePort(): Promise<number> {
+  const probe = createServer();
+  await new Promise<void>((resolve) => probe.listen(0, "127.0.0.1", resolve));
+  const address = probe.address();
+  await new Promise((resolve) => probe.close(resolve));
+  if (!address || typeof address === "string") throw new Error("Could not find a free port");
+  return address.port;
+}
+
+export interface HttpServer {
+  url: string;
+  // Connect an MCP client over Streamable HTTP with the given request headers
+  connect(headers?: Record<string, string>): Promise<Connection>;
+  // Connect over the legacy /sse and /messages pair instead
+  connectSse(headers?: Record<string, string>): Promise<Connection>;
+  stop(): Promise<void>;
+}
+
+export async function startHttpServer(env: Record<string, string>): Promise<HttpServer> {
+  const port = await freePort();
+  const child: ChildProcess = spawn(process.execPath, [CLI_ENTRY, "serve", "--transport", "http"], {
+    env: { PATH: process.env.PATH ?? "", ...env, PORT: String(port) },
+    stdio: "ignore",
+  });
+  const url = `http://127.0.0.1:${port}`;
+
+  const exited = new Promise<void>((resolve) => child.once("exit", () => resolve()));
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  for (;;) {
+    if (child.exitCode !== null) throw new Error(`HTTP server exited with code ${child.exitCode}`);
+    const healthy = await fetch(`${url}/health`).then(
+      (response) => response.ok,
+      () => false
+    );
+    if (healthy) break;
+    if (Date.now() > deadline) {
+      child.kill();
+      throw new Error("HTTP server did not start in time");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+
+  return {
+    url,
+    connect: async (headers = {}) => {
+      const transport = new StreamableHTTPClientTransport(new URL(`${url}/mcp`), {
+        requestInit: { headers },
+      });
+      const client = newClient();
+      await client.connect(transport);
+      return { client, close: () => client.close() };
+    },
+    connectSse: async (headers = {}) => {
+      const transport = new SSEClientTransport(new URL(`${url}/sse`), { requestInit: { headers } });
+      const client = newClient();
+      await client.connect(transport);
+      return { client, close: () => client.close() };
+    },
+    stop: async () => {
+      if (child.exitCode === null) child.kill();
+      await exited;
+    },
+  };
+}
+
+// Call a tool, returning its result with the text content joined and the
+// structured content typed as the caller expects it
+export async function callTool<T = Record<string, unknown>>(
+  client: Client,
+  name: string,
+  args: Record<string, unknown>
+): Promise<CallToolResult & { text: string; structured: T }> {
+  const result = (await client.callTool({ name, arguments: args })) as CallToolResult;
+  const text = result.content
+    .flatMap((item) => (item.type === "text" ? [item.text] : []))
+    .join("\n");
+  return { ...result, text, structured: result.structuredContent as T };
+}
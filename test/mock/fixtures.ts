@@ -0,0 +1,241 @@
+// =============================================================================
+// MOCK SUMBLE DATA
+// =============================================================================
+//
+// A small, fixed dataset for the mock API. Counts and dates are static so
+// tests can assert exact results.
+
+export interface FixtureTechnology {
+  name: string;
+  category: string;
+  jobs_count: number;
+  people_count: number;
+  teams_count: number;
+  last_job_post: string;
+}
+
+export interface FixtureOrganization {
+  id: number;
+  slug: string;
+  name: string;
+  domain: string;
+  industry: string;
+  total_employees: number;
+  headquarters_country: string;
+  technologies: FixtureTechnology[];
+}
+
+export interface FixtureJob {
+  id: number;
+  organization_id: number;
+  job_title: string;
+  location: string;
+  country: string;
+  datetime_pulled: string;
+  primary_job_function: string;
+  matched_technologies: string[];
+}
+
+export interface FixturePerson {
+  id: number;
+  organization_id: number;
+  name: string;
+  job_title: string;
+  job_function: string;
+  job_level: string;
+  location: string;
+  country: string;
+  start_date: string;
+  linkedin_url: string;
+}
+
+function tech(
+  name: string,
+  category: string,
+  jobs_count: number,
+  people_count: number,
+  last_job_post = "2025-05-20"
+): FixtureTechnology {
+  return { name, category, jobs_count, people_count, teams_count: Math.ceil(people_count / 10), last_job_post };
+}
+
+export const ORGANIZATIONS: FixtureOrganization[] = [
+  {
+    id: 101,
+    slug: "acme",
+    name: "Acme Corp",
+    domain: "acme.com",
+    industry: "Software",
+    total_employees: 1200,
+    headquarters_country: "United States",
+    technologies: [
+      tech("python", "languages", 40, 210),
+      tech("snowflake", "data", 12, 35),
+      tech("dbt", "data", 8, 22),
+      tech("kubernetes", "cloud", 15, 60),
+      tech("aws", "cloud", 30, 150),
+    ],
+  },
+  {
+    id: 102,
+    slug: "globex",
+    name: "Globex",
+    domain: "globex.com",
+    industry: "Financial Services",
+    total_employees: 5400,
+    headquarters_country: "United Kingdom",
+    technologies: [
+      tech("java", "languages", 55, 400),
+      tech("snowflake", "data", 20, 48),
+      tech("kubernetes", "cloud", 9, 31),
+      tech("azure", "cloud", 25, 120),
+    ],
+  },
+  {
+    id: 103,
+    slug: "initech",
+    name: "Initech",
+    domain: "initech.com",
+    industry: "Software",
+    total_employees: 300,
+    headquarters_country: "United States",
+    technologies: [
+      tech("python", "languages", 6, 40, "2025-03-02"),
+      tech("dbt", "data", 3, 9, "2025-03-02"),
+      tech("snowflake", "data", 2, 7, "2025-02-11"),
+    ],
+  },
+  {
+    id: 104,
+    slug: "umbrella",
+    name: "Umbrella Health",
+    domain: "umbrella.com",
+    industry: "Healthcare",
+    total_employees: 9000,
+    headquarters_country: "Germany",
+    technologies: [tech("java", "languages", 18, 260), tech("azure", "cloud", 11, 90)],
+  },
+];
+
+export const JOBS: FixtureJob[] = [
+  {
+    id: 5001,
+    organization_id: 101,
+    job_title: "Senior Data Engineer",
+    location: "New York, NY",
+    country: "US",
+    datetime_pulled: "2025-05-20T09:00:00Z",
+    primary_job_function: "Engineer",
+    matched_technologies: ["python", "snowflake", "dbt"],
+  },
+  {
+    id: 5002,
+    organization_id: 101,
+    job_title: "Platform Engineer",
+    location: "Austin, TX",
+    country: "US",
+    datetime_pulled: "2025-04-11T09:00:00Z",
+    primary_job_function: "Engineer",
+    matched_technologies: ["kubernetes", "aws"],
+  },
+  {
+    id: 5003,
+    organization_id: 101,
+    job_title: "Analytics Engineer",
+    location: "London",
+    country: "GB",
+    datetime_pulled: "2025-03-03T09:00:00Z",
+    primary_job_function: "Analyst",
+    matched_technologies: ["dbt", "snowflake"],
+  },
+  {
+    id: 5004,
+    organization_id: 102,
+    job_title: "Java Developer",
+    location: "London",
+    country: "GB",
+    datetime_pulled: "2025-05-02T09:00:00Z",
+    primary_job_function: "Engineer",
+    matched_technologies: ["java", "azure"],
+  },
+  {
+    id: 5005,
+    organization_id: 102,
+    job_title: "Data Platform Lead",
+    location: "Manchester",
+    country: "GB",
+    datetime_pulled: "2025-02-14T09:00:00Z",
+    primary_job_function: "Engineer",
+    matched_technologies: ["snowflake", "kubernetes"],
+  },
+  {
+    id: 5006,
+    organization_id: 103,
+    job_title: "Data Scientist",
+    location: "Remote",
+    country: "US",
+    datetime_pulled: "2025-03-02T09:00:00Z",
+    primary_job_function: "Data Scientist",
+    matched_technologies: ["python"],
+  },
+];
+
+export const PEOPLE: FixturePerson[] = [
+  {
+    id: 9001,
+    organization_id: 101,
+    name: "Dana Whitfield",
+    job_title: "VP of Data",
+    job_function: "Data",
+    job_level: "Executive",
+    location: "New York, NY",
+    country: "US",
+    start_date: "2021-06-01",
+    linkedin_url: "https://www.linkedin.com/in/dana-whitfield",
+  },
+  {
+    id: 9002,
+    organization_id: 101,
+    name: "Sam Okafor",
+    job_title: "Director of Platform Engineering",
+    job_function: "Engineer",
+    job_level: "Director",
+    location: "Austin, TX",
+    country: "US",
+    start_date: "2022-01-10",
+    linkedin_url: "https://www.linkedin.com/in/sam-okafor",
+  },
+  {
+    id: 9003,
+    organization_id: 101,
+    name: "Priya Natarajan",
+    job_title: "Senior Data Engineer",
+    job_function: "Engineer",
+    job_level: "Senior",
+    location: "London",
+    country: "GB",
+    start_date: "2023-03-15",
+    linkedin_url: "https://www.linkedin.com/in/priya-natarajan",
+  },
+  {
+    id: 9004,
+    organization_id: 102,
+    name: "Morgan Lee",
+    job_title: "Head of Engineering",
+    job_function: "Engineer",
+    job_level: "Director",
+    location: "London",
+    country: "GB",
+    start_date: "2019-09-01",
+    linkedin_url: "https://www.linkedin.com/in/morgan-lee",
+  },
+];
+
+// Tests change the dataset to simulate new activity; this puts it back
+const ORIGINAL = structuredClone({ ORGANIZATIONS, JOBS, PEOPLE });
+
+export function restoreFixtures() {
+  ORGANIZATIONS.splice(0, ORGANIZATIONS.length, ...structuredClone(ORIGINAL.ORGANIZATIONS));
+  JOBS.splice(0, JOBS.length, ...structuredClone(ORIGINAL.JOBS));
+  PEOPLE.splice(0, PEOPLE.length, ...structuredClone(ORIGINAL.PEOPLE));
+}
@@ -0,0 +1,18 @@
+import { MOCK_API_KEY, MockSumbleApi } from "./sumbleApi.js";
+
+// =============================================================================
+// STANDALONE MOCK
+// =============================================================================
+//
+// Runs the mock Sumble API on its own, for trying the servers locally without
+// spending credits:
+//
+//   npm run mock-api
+//   SUMBLE_API_BASE_URL=http://127.0.0.1:4010 SUMBLE_API_KEY=mock-sumble-key npm start
+
+const port = parseInt(process.env.MOCK_SUMBLE_PORT || "4010");
+const apiKeys = process.env.MOCK_SUMBLE_API_KEYS?.split(",").map((key) => key.trim()).filter(Boolean);
+
+const api = new MockSumbleApi({ apiKeys: apiKeys?.length ? apiKeys : [MOCK_API_KEY] });
+const baseUrl = await api.start(port);
+console.log(`Mock Sumble API running at ${baseUrl} (API key: ${apiKeys?.join(", ") || MOCK_API_KEY})`);
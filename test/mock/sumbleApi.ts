@@ -0,0 +1,339 @@
+import express, { Request, Response } from "express";
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import {
+  ENDPOINTS,
+  EnrichOrganizationParams,
+  FindJobsParams,
+  FindOrganizationsParams,
+  FindPeopleParams,
+  OrganizationIdentifier,
+  TechnologyFilters,
+} from "../../src/client.js";
+import {
+  FixtureOrganization,
+  FixtureTechnology,
+  JOBS,
+  ORGANIZATIONS,
+  PEOPLE,
+} from "./fixtures.js";
+
+// =============================================================================
+// MOCK SUMBLE API
+// =============================================================================
+//
+// Serves the four v3 endpoints the tools use from fixture data, with injected
+// failures (error statuses, rate limiting, slow responses) for exercising the
+// client's error handling. Point the servers at it with SUMBLE_API_BASE_URL.
+
+export const MOCK_API_KEY = "mock-sumble-key";
+
+// A failure applied to the next matching requests instead of a normal answer
+export interface Failure {
+  // Only requests to this endpoint (e.g., "/v3/jobs/find"); all by default
+  endpoint?: string;
+  // Respond with this status and an error body
+  status?: number;
+  // Error body to send instead of {"detail": "Injected failure (<status>)"}
+  body?: object;
+  // Retry-After header, in seconds
+  retryAfter?: number;
+  // Wait this long before responding
+  delayMs?: number;
+  // How many requests the failure applies to (default 1)
+  times?: number;
+}
+
+// A request body as the client sends it; each handler reads its own endpoint's fields
+export type RequestBody = FindOrganizationsParams & EnrichOrganizationParams & FindJobsParams & FindPeopleParams;
+
+export interface RecordedRequest {
+  endpoint: string;
+  body: RequestBody;
+  apiKey?: string;
+  status: number;
+}
+
+export interface MockSumbleApiOptions {
+  // Bearer tokens the API accepts; anything else gets a 401
+  apiKeys?: string[];
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const CREDITS_REMAINING = 100_000;
+
+function lower(values: unknown): string[] {
+  return Array.isArray(values) ? values.map((value) => String(value).toLowerCase()) : [];
+}
+
+function page<T>(items: T[], body: { limit?: number; offset?: number }): T[] {
+  const offset = Number(body.offset ?? 0);
+  const limit = Number(body.limit ?? 10);
+  return items.slice(offset, offset + limit);
+}
+
+function findOrganization(identifier: OrganizationIdentifier | undefined): FixtureOrganization | undefined {
+  if (!identifier) return undefined;
+  return ORGANIZATIONS.find(
+    (org) =>
+      (identifier.domain !== undefined && org.domain === identifier.domain.toLowerCase()) ||
+      (identifier.id !== undefined && org.id === identifier.id) ||
+      (identifier.slug !== undefined && org.slug === identifier.slug)
+  );
+}
+
+function requireOrganization(identifier: OrganizationIdentifier | undefined): FixtureOrganization {
+  const org = findOrganization(identifier);
+  if (!org) throw new HttpError(404, "Organization not found");
+  return org;
+}
+
+// Technologies matching a filter block: named technologies, categories or a
+// free-text query. An empty filter matches everything.
+function matchTechnologies(technologies: FixtureTechnology[], filters: TechnologyFilters = {}): FixtureTechnology[] {
+  const names = lower(filters.technologies);
+  const categories = lower(filters.technology_categories);
+  const query = typeof filters.query === "string" ? filters.query.toLowerCase() : undefined;
+  if (names.length === 0 && categories.length === 0 && !query) return technologies;
+  return technologies.filter(
+    (tech) =>
+      names.includes(tech.name) ||
+      categories.includes(tech.category) ||
+      (query !== undefined && tech.name.includes(query))
+  );
+}
+
+function organizationView({ technologies, ...org }: FixtureOrganization) {
+  return {
+    ...org,
+    url: `https://sumble.com/orgs/${org.slug}`,
+    jobs_count: technologies.reduce((sum, tech) => sum + tech.jobs_count, 0),
+    people_count: technologies.reduce((sum, tech) => sum + tech.people_count, 0),
+  };
+}
+
+// =============================================================================
+// ENDPOINT HANDLERS
+// =============================================================================
+
+const handlers: Record<string, (body: RequestBody) => object> = {
+  [ENDPOINTS.findOrganizations]: (body) => {
+    const filters = body.filters ?? {};
+    let matches = ORGANIZATIONS.map((org) => ({
+      org,
+      technologies: matchTechnologies(org.technologies, filters),
+    })).filter(({ technologies }) => technologies.length > 0);
+
+    const column = body.order_by_column;
+    if (column) {
+      const direction = body.order_by_direction === "ASC" ? 1 : -1;
+      const value = (org: FixtureOrganization) => Number((organizationView(org) as Record<string, unknown>)[column] ?? 0);
+      matches = [...matches].sort((a, b) => direction * (value(a.org) - value(b.org)));
+    }
+
+    const organizations = page(matches, body).map(({ org, technologies }) => ({
+      ...organizationView(org),
+      matching_technologies: technologies.map((tech) => tech.name),
+    }));
+    const filterCount = Math.max(1, lower(filters.technologies).length);
+    return {
+      organizations,
+      total: matches.length,
+      credits_used: organizations.length * filterCount * 5,
+      credits_remaining: CREDITS_REMAINING,
+    };
+  },
+
+  [ENDPOINTS.enrichOrganization]: (body) => {
+    const org = requireOrganization(body.organization);
+    const technologies = matchTechnologies(org.technologies, body.filters).map(({ category, ...tech }) => ({
+      ...tech,
+      jobs_data_url: `https://sumble.com/orgs/${org.slug}/jobs?technology=${tech.name}`,
+      people_data_url: `https://sumble.com/orgs/${org.slug}/people?technology=${tech.name}`,
+    }));
+    return {
+      organization: organizationView(org),
+      technologies,
+      credits_used: technologies.length * 5,
+      credits_remaining: CREDITS_REMAINING,
+    };
+  },
+
+  [ENDPOINTS.findJobs]: (body) => {
+    const filters = body.filters ?? {};
+    const org = body.organization ? requireOrganization(body.organization) : undefined;
+    const names = lower(filters.technologies);
+    const countries = lower(filters.countries);
+    const matches = JOBS.filter(
+      (job) =>
+        (!org || job.organization_id === org.id) &&
+        (names.length === 0 || job.matched_technologies.some((tech) => names.includes(tech))) &&
+        (countries.length === 0 || countries.includes(job.country.toLowerCase())) &&
+        (!filters.since || job.datetime_pulled >= filters.since)
+    );
+    const jobs = page(matches, body).map((job) => {
+      const owner = ORGANIZATIONS.find((candidate) => candidate.id === job.organization_id)!;
+      return {
+        ...job,
+        organization_name: owner.name,
+        organization_domain: owner.domain,
+        url: `https://sumble.com/jobs/${job.id}`,
+      };
+    });
+    return {
+      jobs,
+      total: matches.length,
+      credits_used: jobs.length * 3,
+      credits_remaining: CREDITS_REMAINING,
+    };
+  },
+
+  [ENDPOINTS.findPeople]: (body) => {
+    const filters = body.filters ?? {};
+    const org = requireOrganization(body.organization);
+    const levels = lower(filters.job_levels);
+    const functions = lower(filters.job_functions);
+    const countries = lower(filters.countries);
+    const matches = PEOPLE.filter(
+      (person) =>
+        person.organization_id === org.id &&
+        (levels.length === 0 || levels.includes(person.job_level.toLowerCase())) &&
+        (functions.length === 0 || functions.includes(person.job_function.toLowerCase())) &&
+        (countries.length === 0 || countries.includes(person.country.toLowerCase()))
+    );
+    const people = page(matches, body).map(({ organization_id, ...person }) => ({
+      ...person,
+      url: `https://sumble.com/people/${person.id}`,
+    }));
+    return {
+      people,
+      total: matches.length,
+      credits_used: people.length,
+      credits_remaining: CREDITS_REMAINING,
+    };
+  },
+};
+
+// =============================================================================
+// SERVER
+// =============================================================================
+
+export class MockSumbleApi {
+  readonly requests: RecordedRequest[] = [];
+  // Leave credits_used out of responses, as the API may
+  omitCredits = false;
+  private failures: Failure[] = [];
+  private apiKeys: Set<string>;
+  private server?: Server;
+
+  constructor(options: MockSumbleApiOptions = {}) {
+    this.apiKeys = new Set(options.apiKeys ?? [MOCK_API_KEY]);
+  }
+
+  // Start listening (on a random port by default) and return the base URL
+  async start(port = 0): Promise<string> {
+    const app = express();
+    app.use(express.json());
+
+    // Control endpoints, for driving the mock from another process
+    app.post("/_mock/failures", (req, res) => {
+      this.fail(req.body);
+      res.status(204).end();
+    });
+    app.delete("/_mock/failures", (req, res) => {
+      this.reset();
+      res.status(204).end();
+    });
+    app.get("/_mock/requests", (req, res) => res.json(this.requests));
+
+    app.post("/v3/*", (req, res) => this.handle(req, res));
+
+    const server = app.listen(port, "127.0.0.1");
+    this.server = server;
+    await new Promise<void>((resolve, reject) => {
+      server.once("listening", resolve);
+      server.once("error", reject);
+    });
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  get baseUrl(): string {
+    if (!this.server) throw new Error("Mock Sumble API is not running");
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  // Queue a failure for the next matching request(s)
+  fail(failure: Failure) {
+    this.failures.push({ ...failure, times: failure.times ?? 1 });
+  }
+
+  // Drop pending failures and recorded requests
+  reset() {
+    this.omitCredits = false;
+    this.failures = [];
+    this.requests.length = 0;
+  }
+
+  // Recorded requests to one endpoint
+  requestsTo(endpoint: string): RecordedRequest[] {
+    return this.requests.filter((request) => request.endpoint === endpoint);
+  }
+
+  private takeFailure(endpoint: string): Failure | undefined {
+    const index = this.failures.findIndex((failure) => !failure.endpoint || failure.endpoint === endpoint);
+    if (index === -1) return undefined;
+    const failure = this.failures[index];
+    if (--failure.times! <= 0) this.failures.splice(index, 1);
+    return failure;
+  }
+
+  private async handle(req: Request, res: Response) {
+    const endpoint = req.path;
+    const apiKey = req.headers.authorization?.replace(/^Bearer\s+/i, "");
+    const respond = (status: number, body: object) => {
+      this.requests.push({ endpoint, body: req.body, apiKey, status });
+      res.status(status).json(body);
+    };
+
+    const failure = this.takeFailure(endpoint);
+    if (failure?.delayMs) await new Promise((resolve) => setTimeout(resolve, failure.delayMs));
+    if (failure?.status) {
+      if (failure.retryAfter !== undefined) res.setHeader("Retry-After", String(failure.retryAfter));
+      respond(failure.status, failure.body ?? { detail: `Injected failure (${failure.status})` });
+      return;
+    }
+
+    if (!apiKey || !this.apiKeys.has(apiKey)) {
+      respond(401, { detail: "Invalid API key" });
+      return;
+    }
+    const handler = handlers[endpoint];
+    if (!handler) {
+      respond(404, { detail: "Not Found" });
+      return;
+    }
+    try {
+      const { credits_used, ...data } = handler(req.body ?? {}) as { credits_used?: number };
+      respond(200, this.omitCredits ? data : { ...data, credits_used });
+    } catch (error) {
+      if (!(error instanceof HttpError)) throw error;
+      respond(error.status, { detail: error.message });
+    }
+  }
+}
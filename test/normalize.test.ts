@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { canonicalCountry, canonicalDomain, canonicalTechnology, normalizeArgs } from "../src/normalize.js";
+
+describe("canonicalDomain", () => {
+  it("strips the scheme, www, port, path and query", () => {
+    assert.equal(canonicalDomain("https://www.Stripe.com/"), "stripe.com");
+    assert.equal(canonicalDomain("http://www2.example.co.uk:8080/about?ref=x#team"), "example.co.uk");
+    assert.equal(canonicalDomain(" Shopify.com. "), "shopify.com");
+  });
+
+  it("takes the domain of an email address", () => {
+    assert.equal(canonicalDomain("jane@datadoghq.com"), "datadoghq.com");
+  });
+});
+
+describe("canonicalCountry", () => {
+  it("maps English names and common aliases to ISO 3166-1 alpha-2 codes", () => {
+    assert.equal(canonicalCountry("United States"), "US");
+    assert.equal(canonicalCountry("USA"), "US");
+    assert.equal(canonicalCountry("UK"), "GB");
+    assert.equal(canonicalCountry("germany"), "DE");
+    assert.equal(canonicalCountry("Côte d'Ivoire"), "CI");
+    assert.equal(canonicalCountry("Bosnia and Herzegovina"), "BA");
+    assert.equal(canonicalCountry("the Netherlands"), "NL");
+  });
+
+  it("upper-cases codes and leaves unknown values alone", () => {
+    assert.equal(canonicalCountry("ca"), "CA");
+    assert.equal(canonicalCountry("Atlantis"), "Atlantis");
+  });
+});
+
+describe("canonicalTechnology", () => {
+  it("resolves aliases case-insensitively", () => {
+    assert.equal(canonicalTechnology("k8s"), "kubernetes");
+    assert.equal(canonicalTechnology("GoLang"), "go");
+    assert.equal(canonicalTechnology("ReactJS"), "react");
+    assert.equal(canonicalTechnology(" Snowflake "), "snowflake");
+  });
+});
+
+describe("normalizeArgs", () => {
+  it("reports rewrites but not case changes, and drops duplicates", () => {
+    const { args, rewrites } = normalizeArgs({
+      domain: "Stripe.com",
+      technologies: ["Python", "k8s", "Kubernetes"],
+      countries: ["us", "Canada"],
+      limit: 10,
+    });
+    assert.deepEqual(args, {
+      domain: "stripe.com",
+      technologies: ["python", "kubernetes"],
+      countries: ["US", "CA"],
+      limit: 10,
+    });
+    assert.deepEqual(rewrites, [
+      { field: "technologies", from: "k8s", to: "kubernetes" },
+      { field: "countries", from: "Canada", to: "CA" },
+    ]);
+  });
+});
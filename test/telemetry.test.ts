@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { redact, registerSecret } from "../src/logger.js";
+import { Counter, Histogram } from "../src/metrics.js";
+
+describe("redact", () => {
+  it("hides secret fields but keeps IDs derived from them", () => {
+    const entry = redact({
+      headers: { Authorization: "Bearer abc", "x-sumble-api-key": "key" },
+      api_key_id: "3f2a9c",
+      password: "hunter2",
+      tool: "find_jobs",
+    });
+    assert.deepEqual(entry, {
+      headers: { Authorization: "[REDACTED]", "x-sumble-api-key": "[REDACTED]" },
+      api_key_id: "3f2a9c",
+      password: "[REDACTED]",
+      tool: "find_jobs",
+    });
+  });
+
+  it("scrubs bearer tokens and registered keys from text", () => {
+    const release = registerSecret("sk-live-0123456789");
+    const error = new Error("request with key sk-live-0123456789 failed: Authorization: Bearer eyJhbGciOi.x.y");
+    const { error: redacted } = redact({ error }) as { error: { message: string } };
+    assert.equal(redacted.message, "request with key [REDACTED] failed: Authorization: Bearer [REDACTED]");
+
+    // Released keys are no longer scanned for
+    release();
+    assert.equal(redact("key sk-live-0123456789"), "key sk-live-0123456789");
+  });
+});
+
+describe("metrics", () => {
+  it("renders counters and histograms in the Prometheus text format", () => {
+    const calls = new Counter("test_calls_total", "Calls.");
+    calls.inc({ tool: "find_jobs", status: "success" });
+    calls.inc({ status: "success", tool: "find_jobs" }, 2);
+    assert.deepEqual(calls.render(), [
+      "# HELP test_calls_total Calls.",
+      "# TYPE test_calls_total counter",
+      'test_calls_total{tool="find_jobs",status="success"} 3',
+    ]);
+
+    const latency = new Histogram("test_seconds", "Latency.", [0.1, 1]);
+    latency.observe({ endpoint: "/v3/jobs/find" }, 0.5);
+    assert.deepEqual(latency.render().slice(2), [
+      'test_seconds_bucket{endpoint="/v3/jobs/find",le="0.1"} 0',
+      'test_seconds_bucket{endpoint="/v3/jobs/find",le="1"} 1',
+      'test_seconds_bucket{endpoint="/v3/jobs/find",le="+Inf"} 1',
+      'test_seconds_sum{endpoint="/v3/jobs/find"} 0.5',
+      'test_seconds_count{endpoint="/v3/jobs/find"} 1',
+    ]);
+  });
+});